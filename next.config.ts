@@ -9,6 +9,10 @@ const nextConfig: NextConfig = {
     ignoreDuringBuilds: true,
   },
   experimental: {
+    serverActions: {
+      // Corpus uploads (.txt/.zip) are sent through a server action
+      bodySizeLimit: '50mb',
+    },
     allowedDevOrigins: [
       '9004-idx-studio-1744378905575.cluster-ikxjzjhlifcwuroomfkjrx437g.cloudworkstations.dev',
     ],
@@ -1,12 +1,13 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {resolveModelProvider} from '@/ai/providers';
+
+// Selected by MODEL_PROVIDER; see src/ai/providers.
+const provider = resolveModelProvider();
+
+export const DEFAULT_MODEL = provider.model;
 
 export const ai = genkit({
   promptDir: './prompts',
-  plugins: [
-    googleAI({
-      apiKey: process.env.GOOGLE_GENAI_API_KEY,
-    }),
-  ],
-  model: 'googleai/gemini-2.0-flash',
-});
\ No newline at end of file
+  plugins: provider.plugins,
+  model: DEFAULT_MODEL,
+});
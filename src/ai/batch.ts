@@ -0,0 +1,249 @@
+/**
+ * @fileOverview Command-line batch tool: runs the collocation analysis for every word in a
+ * word list and writes the combined results to one CSV, TSV, JSON or .xlsx file.
+ *
+ * - Words run a few at a time (--concurrency). Words that failed in a way that may pass, such
+ *   as the model being unreachable, are retried (--retries); rejected input is not.
+ * - Progress is saved to a checkpoint file after every word. Re-running the same command
+ *   skips the words already done, so an interrupted run resumes where it stopped.
+ * - The checkpoint is removed once every word has succeeded; words that still failed are
+ *   listed and retried by the next run.
+ *
+ * Usage: npm run batch -- <word-list> --out <file> [options] (see --help).
+ */
+
+import {promises as fs} from 'fs';
+import {GenkitError} from 'genkit';
+import {parseArgs} from 'util';
+import {analyzeCollocations} from '@/ai/flows/analyze-collocations';
+import {
+  AnalyzeCollocationsInputSchema,
+  type AnalyzeCollocationsInput,
+  type AnalyzeCollocationsOutput,
+} from '@/ai/schemas/analyze-collocations';
+import {runBatch} from '@/lib/batch';
+import {exportCollocations, type ExportFormat} from '@/lib/collocation-export';
+import {isLanguage, LANGUAGES} from '@/lib/corpus/language';
+import {listCorpora} from '@/lib/corpus/store';
+
+const FORMATS: ExportFormat[] = ['csv', 'tsv', 'json', 'xlsx'];
+const CHECKPOINT_VERSION = 1;
+
+const USAGE = `Usage: npm run batch -- <word-list> --out <file> [options]
+
+The word list has one word (or lemma_POS query) per line; blank lines and lines starting
+with # are skipped.
+
+Options:
+  -o, --out <file>          Output file (required)
+  -f, --format <format>     ${FORMATS.join(', ')} (default: from the output file extension)
+  -c, --concurrency <n>     Words analyzed at once (default: 4)
+  -r, --retries <n>         Retries per failed word (default: 3)
+      --corpus <name>       Compute collocations from a local corpus instead of the model
+      --verify-against <name>
+                            Check model suggestions against a local corpus
+  -l, --language <code>     ${LANGUAGES.join(', ')} (default: en)
+      --left <n>            Words to the left of the node (default: 5)
+      --right <n>           Words to the right of the node (default: 5)
+      --lemma               Match all inflected forms of each word
+      --refresh             Bypass the result cache
+      --checkpoint <file>   Progress file (default: <out>.checkpoint.json)
+      --restart             Discard an existing checkpoint and start over
+  -h, --help                Show this help
+`;
+
+type Settings = Omit<AnalyzeCollocationsInput, 'word'> & {verifyAgainst?: string};
+
+interface Checkpoint {
+  version: number;
+  settings: Settings;
+  /** Finished analyses by word. */
+  results: Record<string, AnalyzeCollocationsOutput>;
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+function parseCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value)) {
+    fail(`--${name} must be a whole number.`);
+  }
+  return Number(value);
+}
+
+/**
+ * Reads the word list, dropping blank lines, comments and repeated words.
+ */
+async function readWordList(file: string): Promise<string[]> {
+  const lines = (await fs.readFile(file, 'utf8')).split(/\r?\n/).map(line => line.trim());
+  return Array.from(new Set(lines.filter(line => line && !line.startsWith('#'))));
+}
+
+/**
+ * Whether a failed analysis may succeed if run again. Genkit rejects input, and model output,
+ * that does not fit its schema with INVALID_ARGUMENT; running again fails the same way.
+ */
+function isRetryable(error: Error): boolean {
+  return !(error instanceof GenkitError && error.status === 'INVALID_ARGUMENT');
+}
+
+async function readCheckpoint(file: string): Promise<Checkpoint | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as Checkpoint;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Cannot read checkpoint ${file}: ${error.message}`);
+  }
+}
+
+// Written to a temporary file first, so an interrupted write never corrupts the checkpoint.
+async function writeCheckpoint(file: string, checkpoint: Checkpoint): Promise<void> {
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(checkpoint));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: {type: 'string', short: 'o'},
+      format: {type: 'string', short: 'f'},
+      concurrency: {type: 'string', short: 'c'},
+      retries: {type: 'string', short: 'r'},
+      corpus: {type: 'string'},
+      'verify-against': {type: 'string'},
+      language: {type: 'string', short: 'l'},
+      left: {type: 'string'},
+      right: {type: 'string'},
+      lemma: {type: 'boolean'},
+      refresh: {type: 'boolean'},
+      checkpoint: {type: 'string'},
+      restart: {type: 'boolean'},
+      help: {type: 'boolean', short: 'h'},
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const [wordList] = positionals;
+  if (!wordList || positionals.length > 1) {
+    fail('Please name exactly one word list file.');
+  }
+  const out = values.out ?? fail('Please name an output file with --out.');
+  const format = (values.format ?? out.split('.').pop()!.toLowerCase()) as ExportFormat;
+  if (!FORMATS.includes(format)) {
+    fail(`Unknown output format "${format}"; use --format ${FORMATS.join('|')}.`);
+  }
+  if (values.language !== undefined && !isLanguage(values.language)) {
+    fail(`Unknown language "${values.language}".`);
+  }
+  const concurrency = parseCount(values.concurrency, 'concurrency', 4);
+  if (concurrency < 1) {
+    fail('--concurrency must be at least 1.');
+  }
+  const retries = parseCount(values.retries, 'retries', 3);
+  const span = values.left === undefined && values.right === undefined
+    ? undefined
+    : {left: parseCount(values.left, 'left', 5), right: parseCount(values.right, 'right', 5)};
+
+  const settings: Settings = {
+    matchLemma: values.lemma || undefined,
+    language: values.language as Settings['language'],
+    corpus: values.corpus,
+    span,
+    verifyAgainst: values['verify-against'],
+  };
+  // Checked up front: a missing corpus would fail every word
+  const corpora = await listCorpora();
+  for (const name of [settings.corpus, settings.verifyAgainst]) {
+    if (name && !corpora.includes(name)) {
+      fail(`Corpus "${name}" does not exist.`);
+    }
+  }
+  const words = await readWordList(wordList);
+  const inputs: AnalyzeCollocationsInput[] = [];
+  const invalid: string[] = [];
+  for (const word of words) {
+    const {verifyAgainst, ...rest} = settings;
+    const input = AnalyzeCollocationsInputSchema.safeParse({...rest, word});
+    if (input.success) {
+      inputs.push(input.data);
+    } else {
+      invalid.push(word);
+      console.error(`Skipping "${word}": ${input.error.issues.map(issue => issue.message).join('; ')}`);
+    }
+  }
+
+  const checkpointFile = values.checkpoint ?? `${out}.checkpoint.json`;
+  let checkpoint = values.restart ? undefined : await readCheckpoint(checkpointFile);
+  if (checkpoint && JSON.stringify(checkpoint.settings) !== JSON.stringify(settings)) {
+    fail(`${checkpointFile} was written with different settings; pass --restart to discard it.`);
+  }
+  checkpoint ??= {version: CHECKPOINT_VERSION, settings, results: {}};
+  const done = checkpoint.results;
+  const pending = inputs.filter(input => !done[input.word]);
+  if (pending.length < inputs.length) {
+    console.error(`Resuming from ${checkpointFile}: ${inputs.length - pending.length} of ${inputs.length} words done.`);
+  }
+
+  // Checkpoint writes are chained so concurrent words never write at the same time.
+  let saving = Promise.resolve();
+  const failed: string[] = [];
+  let finished = inputs.length - pending.length;
+  await runBatch(
+    pending,
+    input => analyzeCollocations(input, {refresh: values.refresh, verifyAgainst: settings.verifyAgainst}),
+    {
+      concurrency,
+      retries,
+      isRetryable,
+      onSettled: (input, outcome) => {
+        const progress = `[${++finished}/${inputs.length}] ${input.word}`;
+        if (outcome.ok) {
+          done[input.word] = outcome.value;
+          console.error(`${progress}: ${outcome.value.collocations.length} collocates`);
+          saving = saving.then(() => writeCheckpoint(checkpointFile, checkpoint));
+        } else {
+          failed.push(input.word);
+          // Genkit appends the schema and the model output to validation errors.
+          const reason = outcome.error.message.split('\n')[0];
+          const attempts = `${outcome.attempts} ${outcome.attempts === 1 ? 'attempt' : 'attempts'}`;
+          console.error(`${progress}: failed after ${attempts}: ${reason}`);
+        }
+      },
+    }
+  );
+  await saving;
+
+  const resultSets = inputs
+    .filter(input => done[input.word])
+    .map(input => ({
+      node: input.word,
+      corpus: done[input.word].corpus?.name,
+      collocations: done[input.word].collocations,
+    }));
+  await fs.writeFile(out, exportCollocations(resultSets, format).content);
+  console.error(`Wrote ${resultSets.length} of ${words.length} words to ${out}.`);
+
+  if (failed.length > 0) {
+    console.error(`Failed: ${failed.join(', ')}. Run the same command again to retry them.`);
+  } else {
+    await fs.rm(checkpointFile, {force: true});
+  }
+  if (failed.length > 0 || invalid.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+/**
+ * @fileOverview Command-line tool that removes cached model results, for some words or all
+ * of them, so the next analysis asks the model again.
+ *
+ * Usage: npm run cache:clear -- [word ...] (see --help).
+ */
+
+import {parseArgs} from 'util';
+import {invalidateCollocationCache} from '@/ai/collocation-cache';
+
+const USAGE = `Usage: npm run cache:clear -- [word ...]
+
+Removes the cached collocations of each word, whatever POS, span, language or lemma
+setting it was searched with ("make" also clears "make_V"). Without words, clears
+the whole cache.
+
+Options:
+  -h, --help    Show this help
+`;
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      help: {type: 'boolean', short: 'h'},
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length === 0) {
+    console.error(`Removed ${await invalidateCollocationCache()} cached results.`);
+    return;
+  }
+  for (const word of positionals) {
+    console.error(`${word}: removed ${await invalidateCollocationCache(word)} cached results.`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+import {describe, expect, it} from 'vitest';
+import {collocationCache, collocationCacheKey, invalidateCollocationCache} from '@/ai/collocation-cache';
+
+const RESULT = {collocations: []};
+
+describe('collocationCacheKey', () => {
+  it('gives a search without a span the key of one with the default span', () => {
+    expect(collocationCacheKey({word: 'strong'})).toEqual(
+      collocationCacheKey({word: 'strong', span: {left: 5, right: 5}})
+    );
+    expect(collocationCacheKey({word: 'strong'})).not.toEqual(
+      collocationCacheKey({word: 'strong', span: {left: 2, right: 5}})
+    );
+  });
+});
+
+describe('invalidateCollocationCache', () => {
+  it('removes every cached search for the word, and only those', async () => {
+    const removed = [
+      collocationCacheKey({word: 'make'}),
+      collocationCacheKey({word: 'Make_V'}),
+      collocationCacheKey({word: 'make', matchLemma: true, span: {left: 2, right: 2}}),
+      collocationCacheKey({word: 'make', language: 'fr'}),
+    ];
+    const kept = collocationCacheKey({word: 'maker'});
+    for (const key of [...removed, kept]) {
+      await collocationCache.set(key, RESULT);
+    }
+
+    expect(await invalidateCollocationCache('make')).toBe(removed.length);
+
+    for (const key of removed) {
+      expect(await collocationCache.get(key)).toBeUndefined();
+    }
+    expect((await collocationCache.get(kept))?.value).toEqual(RESULT);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @fileOverview Cache of model-generated collocation results, shared by all callers of
+ * analyzeCollocations. Corpus results are cheap and deterministic, so they are not cached.
+ *
+ * Configured by COLLOCATION_CACHE_DIR (default: ./.cache/collocations) and
+ * COLLOCATION_CACHE_TTL_HOURS (default: one week; also used when the value is not a
+ * non-negative number).
+ */
+
+import path from 'path';
+import {DEFAULT_MODEL} from '@/ai/ai-instance';
+import type {AnalyzeCollocationsInput, AnalyzeCollocationsOutput} from '@/ai/flows/analyze-collocations';
+import {DEFAULT_SPAN} from '@/ai/schemas/analyze-collocations';
+import {DEFAULT_LANGUAGE} from '@/lib/corpus/language';
+import {formatLemmaPos, parseNodeQuery} from '@/lib/corpus/pos';
+import {ResultCache} from '@/lib/result-cache';
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+function ttlHours(): number {
+  const value = process.env.COLLOCATION_CACHE_TTL_HOURS;
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_TTL_HOURS;
+  }
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours < 0) {
+    console.warn(`Ignoring COLLOCATION_CACHE_TTL_HOURS="${value}"; using ${DEFAULT_TTL_HOURS} hours.`);
+    return DEFAULT_TTL_HOURS;
+  }
+  return hours;
+}
+
+export const collocationCache = new ResultCache<AnalyzeCollocationsOutput>({
+  dir: process.env.COLLOCATION_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'collocations'),
+  maxEntries: 500,
+  ttlMs: ttlHours() * 60 * 60 * 1000,
+});
+
+/**
+ * Key parts for an analysis request: the normalized word plus everything that changes the
+ * model's answer.
+ */
+export function collocationCacheKey(input: AnalyzeCollocationsInput): Record<string, unknown> {
+  const query = parseNodeQuery(input.word, input.matchLemma);
+  // Leaving the span out asks for the default one
+  const span = input.span ?? DEFAULT_SPAN;
+  return {
+    word: query.pos ? formatLemmaPos(query.word, query.pos) : query.word,
+    matchLemma: query.byLemma,
+    language: input.language ?? DEFAULT_LANGUAGE,
+    model: DEFAULT_MODEL,
+    span: {left: span.left, right: span.right},
+  };
+}
+
+/**
+ * Removes cached results for `word` in every form it was searched in (with or without a POS
+ * suffix, by form or by lemma, any span or language), or the whole cache if no word is
+ * given. Returns the number of entries removed.
+ */
+export async function invalidateCollocationCache(word?: string): Promise<number> {
+  if (!word) {
+    return collocationCache.invalidate();
+  }
+  const target = parseNodeQuery(word).word;
+  return collocationCache.invalidate(
+    parts => typeof parts.word === 'string' && parseNodeQuery(parts.word).word === target
+  );
+}
@@ -0,0 +1,148 @@
+import {beforeAll, describe, expect, expectTypeOf, it} from 'vitest';
+import {
+  analyzeCollocations,
+  type AnalyzeCollocationsOutput,
+  type Collocation,
+} from '@/ai/flows/analyze-collocations';
+import {collocationCache, collocationCacheKey} from '@/ai/collocation-cache';
+import {MOCK_MODEL} from '@/ai/providers/mock';
+import {AnalyzeCollocationsOutputSchema, MAX_WORD_LENGTH} from '@/ai/schemas/analyze-collocations';
+import {ingestFiles} from '@/lib/corpus/ingest';
+import {saveCorpus} from '@/lib/corpus/store';
+
+// Each word selects a recorded model response in src/ai/fixtures/analyze-collocations.json.
+
+const CORPUS_TEXT = `He likes strong coffee. Strong coffee keeps him awake.
+She made a strong case for the plan. The plan has strong support.
+
+A cup of weak tea. The wind was strong today.`;
+
+function expectValidOutput(output: AnalyzeCollocationsOutput) {
+  expectTypeOf(output).toEqualTypeOf<AnalyzeCollocationsOutput>();
+  expect(() => AnalyzeCollocationsOutputSchema.parse(output)).not.toThrow();
+}
+
+describe('analyzeCollocations with a model', () => {
+  it('returns the recorded collocates in the output shape', async () => {
+    const output = await analyzeCollocations({word: 'strong'}, {refresh: true});
+
+    expectValidOutput(output);
+    expect(output.model).toBe(MOCK_MODEL);
+    expect(output.fromCache).toBe(false);
+    expect(output.corpus).toBeUndefined();
+    expect(output.collocations.map(c => c.collocate)).toEqual(['coffee', 'support', 'very']);
+    for (const collocation of output.collocations) {
+      expect(collocation.source).toBe('model');
+      expect(collocation.statistics).toBeUndefined();
+      expect(collocation.verification).toBeUndefined();
+    }
+  });
+
+  it('streams every collocate before resolving', async () => {
+    const streamed: Collocation[] = [];
+    const output = await analyzeCollocations(
+      {word: 'strong', span: {left: 3, right: 3}},
+      {refresh: true, onCollocation: collocation => streamed.push(collocation)}
+    );
+
+    expect(streamed).toEqual(output.collocations);
+  });
+
+  it('serves a repeated request from the cache', async () => {
+    const first = await analyzeCollocations({word: 'strong', span: {left: 1, right: 1}});
+    const second = await analyzeCollocations({word: 'strong', span: {left: 1, right: 1}});
+
+    expect(first.fromCache).toBe(false);
+    expect(second.fromCache).toBe(true);
+    expect(second.collocations).toEqual(first.collocations);
+  });
+
+  it('passes the language to the model', async () => {
+    const output = await analyzeCollocations({word: 'fuerte', language: 'es'}, {refresh: true});
+
+    expectValidOutput(output);
+    expect(output.collocations.map(c => c.collocate)).toEqual(['café']);
+  });
+
+  it('returns an empty list when the model finds no collocates', async () => {
+    const output = await analyzeCollocations({word: 'nothing'}, {refresh: true});
+
+    expectValidOutput(output);
+    expect(output.collocations).toEqual([]);
+  });
+
+  it.each(['nulltext', 'emptytext'])('rejects a null output (%s)', async word => {
+    const promise = analyzeCollocations({word}, {refresh: true});
+
+    await expect(promise).rejects.toThrow();
+    await expect(promise).rejects.not.toBeInstanceOf(TypeError);
+  });
+
+  it.each(['truncated', 'prose'])('rejects malformed JSON (%s)', async word => {
+    await expect(analyzeCollocations({word}, {refresh: true})).rejects.toThrow(/malformed|schema validation/i);
+  });
+
+  it('rejects values outside the schema', async () => {
+    await expect(analyzeCollocations({word: 'badenum'}, {refresh: true})).rejects.toThrow(/schema validation/i);
+  });
+
+  it('does not cache failed requests', async () => {
+    await expect(analyzeCollocations({word: 'truncated'})).rejects.toThrow();
+
+    expect(await collocationCache.get(collocationCacheKey({word: 'truncated'}))).toBeUndefined();
+  });
+
+  it('accepts a word of the maximum length', async () => {
+    const output = await analyzeCollocations({word: 'a'.repeat(MAX_WORD_LENGTH)}, {refresh: true});
+
+    expectValidOutput(output);
+  });
+
+  it('rejects overlong and empty words before calling the model', async () => {
+    await expect(analyzeCollocations({word: 'a'.repeat(MAX_WORD_LENGTH + 1)}, {refresh: true})).rejects.toThrow();
+    await expect(analyzeCollocations({word: '   '}, {refresh: true})).rejects.toThrow();
+  });
+
+  it('rejects spans outside 0..5', async () => {
+    await expect(analyzeCollocations({word: 'strong', span: {left: 6, right: 0}}, {refresh: true})).rejects.toThrow();
+  });
+});
+
+describe('analyzeCollocations with a corpus', () => {
+  beforeAll(async () => {
+    await saveCorpus(ingestFiles('fixture', [{name: 'a.txt', data: new TextEncoder().encode(CORPUS_TEXT)}]));
+  });
+
+  it('computes collocates and statistics from the corpus', async () => {
+    const output = await analyzeCollocations({word: 'strong', corpus: 'fixture', span: {left: 2, right: 2}});
+
+    expectValidOutput(output);
+    expect(output.model).toBeUndefined();
+    expect(output.corpus).toMatchObject({name: 'fixture', language: 'en', nodeFrequency: 5, textCount: 1});
+    const coffee = output.collocations.find(c => c.collocate === 'coffee');
+    expect(coffee).toMatchObject({source: 'corpus', frequency: 2});
+    expect(coffee?.statistics?.observed).toBe(2);
+    expect(coffee?.positions).toEqual({left: [0, 0], right: [2, 0]});
+    expect(coffee?.annotations).toHaveLength(coffee!.exampleSentences.length);
+    expect(coffee?.annotations?.every(annotation => annotation.distance === 1)).toBe(true);
+  });
+
+  it('flags model collocates the corpus does not attest', async () => {
+    const output = await analyzeCollocations({word: 'strong', span: {left: 2, right: 2}}, {verifyAgainst: 'fixture'});
+
+    expectValidOutput(output);
+    const verifications = Object.fromEntries(output.collocations.map(c => [c.collocate, c.verification]));
+    expect(verifications.coffee).toEqual({
+      corpus: 'fixture',
+      attested: true,
+      coOccurrences: 2,
+      sentencesAttested: [false, false],
+    });
+    expect(verifications.support).toMatchObject({attested: true, coOccurrences: 1, sentencesAttested: [true]});
+    expect(verifications.very).toMatchObject({attested: false, coOccurrences: 0});
+  });
+
+  it('rejects an unknown corpus', async () => {
+    await expect(analyzeCollocations({word: 'strong', corpus: 'missing'})).rejects.toThrow(/does not exist/);
+  });
+});
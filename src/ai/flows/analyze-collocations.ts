@@ -4,32 +4,99 @@
 /**
  * @fileOverview Analyzes user input to find relevant and statistically significant collocations.
  *
+ * When a corpus is named in the input, collocates and their association measures are computed
+ * deterministically from that corpus; otherwise the model is asked for its best guess. Model
+ * results can additionally be checked against a corpus, flagging collocates and example
+ * sentences the corpus does not attest. Every example sentence is annotated with where the
+ * node and the collocate are in it. Collocates are streamed to an optional callback as soon
+ * as each one is complete.
+ *
  * - analyzeCollocations - A function that handles the collocation analysis process.
  * - AnalyzeCollocationsInput - The input type for the analyzeCollocations function.
  * - AnalyzeCollocationsOutput - The return type for the analyzeCollocations function.
+ * - Collocation - A single collocate in the output, also the unit that is streamed.
+ * - SentenceAnnotation - Where the node and collocate are in one example sentence.
  */
 
-import {ai} from '@/ai/ai-instance';
+import {ai, DEFAULT_MODEL} from '@/ai/ai-instance';
+import {collocationCache, collocationCacheKey} from '@/ai/collocation-cache';
+import {assertCompleteJson} from '@/ai/model-output';
+import {
+  AnalyzeCollocationsInputSchema,
+  AnalyzeCollocationsOutputSchema,
+  CollocationSchema,
+  DEFAULT_SPAN,
+  type AnalyzeCollocationsInput,
+  type AnalyzeCollocationsOutput,
+  type Collocation,
+} from '@/ai/schemas/analyze-collocations';
 import {z} from 'genkit';
+import {createAnnotator} from '@/lib/corpus/annotate';
+import {findCollocates} from '@/lib/corpus/collocates';
+import {DEFAULT_LANGUAGE, LANGUAGE_NAMES} from '@/lib/corpus/language';
+import {POS_LABELS, POS_TAGS, parseNodeQuery} from '@/lib/corpus/pos';
+import {RELATION_LABELS, RELATIONS} from '@/lib/corpus/relations';
+import {loadCorpus} from '@/lib/corpus/store';
+import {createVerifier} from '@/lib/corpus/verify';
 
-const AnalyzeCollocationsInputSchema = z.object({
-  word: z.string().describe('The word to find collocations for.'),
-});
-export type AnalyzeCollocationsInput = z.infer<typeof AnalyzeCollocationsInputSchema>;
+export type {
+  AnalyzeCollocationsInput,
+  AnalyzeCollocationsOutput,
+  Collocation,
+  CollocationStatistics,
+  SentenceAnnotation,
+} from '@/ai/schemas/analyze-collocations';
 
-const AnalyzeCollocationsOutputSchema = z.object({
-  collocations: z.array(
-    z.object({
-      collocate: z.string().describe('The collocate.'),
-      frequency: z.number().describe('The frequency of the collocate with the input word.'),
-      exampleSentences: z.array(z.string()).describe('Example sentences using the collocate with the input word.'),
-    })
-  ).describe('The statistically significant and contextually relevant collocations for the input word.'),
-});
-export type AnalyzeCollocationsOutput = z.infer<typeof AnalyzeCollocationsOutputSchema>;
+/**
+ * Model results are served from the cache when available; pass `refresh` to bypass it and
+ * replace the cached entry. Pass `verifyAgainst` to check model results against a corpus;
+ * verification always runs fresh, so a cached result reflects the corpus as it is now.
+ *
+ * `onCollocation` receives each collocate (verified, if requested) as soon as it is complete,
+ * before the full result resolves. It can only be passed when calling from the server.
+ */
+export async function analyzeCollocations(
+  input: AnalyzeCollocationsInput,
+  options: {refresh?: boolean; verifyAgainst?: string; onCollocation?: (collocation: Collocation) => void} = {}
+): Promise<AnalyzeCollocationsOutput> {
+  const {onCollocation} = options;
+  if (input.corpus) {
+    return (await analyzeCollocationsFlow.run(input, {onChunk: onCollocation})).result;
+  }
+
+  const verify = options.verifyAgainst ? await corpusVerifier(input, options.verifyAgainst) : undefined;
+  const annotate = (collocation: Collocation): Collocation =>
+    verify ? {...collocation, verification: verify(collocation)} : collocation;
 
-export async function analyzeCollocations(input: AnalyzeCollocationsInput): Promise<AnalyzeCollocationsOutput> {
-  return analyzeCollocationsFlow(input);
+  const key = collocationCacheKey(input);
+  if (!options.refresh) {
+    const cached = await collocationCache.get(key);
+    if (cached) {
+      const collocations = cached.value.collocations.map(annotate);
+      collocations.forEach(collocation => onCollocation?.(collocation));
+      return {...cached.value, collocations, fromCache: true};
+    }
+  }
+  const {result: output} = await analyzeCollocationsFlow.run(input, {
+    onChunk: onCollocation && (collocation => onCollocation(annotate(collocation))),
+  });
+  await collocationCache.set(key, output);
+  return {...output, collocations: output.collocations.map(annotate), fromCache: false};
+}
+
+async function corpusVerifier(input: AnalyzeCollocationsInput, corpusName: string) {
+  const corpus = await loadCorpus(corpusName);
+  return createVerifier(corpus, parseNodeQuery(input.word, input.matchLemma), input.span ?? DEFAULT_SPAN);
+}
+
+type PromptOutput = {collocations: Omit<Collocation, 'source'>[]};
+
+// Adds the offsets of the node and the collocate in each example sentence.
+function withAnnotations<T extends Omit<Collocation, 'source'>>(
+  annotate: ReturnType<typeof createAnnotator>,
+  collocation: T
+): T {
+  return {...collocation, annotations: collocation.exampleSentences.map(sentence => annotate(sentence, collocation))};
 }
 
 const prompt = ai.definePrompt({
@@ -37,6 +104,10 @@ const prompt = ai.definePrompt({
   input: {
     schema: z.object({
       word: z.string().describe('The word to find collocations for.'),
+      language: z.string().describe('The language the word and the answer are in.'),
+      pos: z.string().optional().describe('The part of speech the word is used as.'),
+      left: z.number().describe('Words to the left of the node word.'),
+      right: z.number().describe('Words to the right of the node word.'),
     }),
   },
   output: {
@@ -44,17 +115,24 @@ const prompt = ai.definePrompt({
       collocations: z.array(
         z.object({
           collocate: z.string().describe('The collocate.'),
+          lemma: z.string().describe('The lemma of the collocate.'),
+          pos: z.enum(POS_TAGS).describe('The part of speech of the collocate.'),
+          relation: z.enum(RELATIONS).describe('The grammatical relation between the input word and the collocate.'),
           frequency: z.number().describe('The frequency of the collocate with the input word.'),
           exampleSentences: z.array(z.string()).describe('Example sentences using the collocate with the input word.'),
         })
       ).describe('The statistically significant and contextually relevant collocations for the input word.'),
     }),
   },
-  prompt: `You are a linguistic expert. Find statistically significant and contextually relevant collocations for the word: {{{word}}}. Return an array of JSON objects. Each object should have the following properties:
+  prompt: `You are a linguistic expert in {{language}}. Find statistically significant and contextually relevant collocations for the {{language}} word: {{{word}}}{{#if pos}} (used as a {{pos}}){{/if}}. Base your answer on how the word is used by native speakers of {{language}}, not on translations of English collocations. Treat all inflected forms of the word as the same word. Only consider collocates that occur within {{left}} words to the left or {{right}} words to the right of it. Return an array of JSON objects. Each object should have the following properties:
 
-- collocate: The collocate.
+- collocate: The collocate, in {{language}}.
+- lemma: The dictionary form of the collocate, in {{language}}.
+- pos: The part of speech of the collocate, one of: ${POS_TAGS.join(', ')}.
+- relation: The grammatical relation between the word (X) and the collocate, one of:
+${RELATIONS.map(relation => `  - ${relation}: ${RELATION_LABELS[relation]}`).join('\n')}
 - frequency: The frequency of the collocate with the input word.
-- exampleSentences: Example sentences using the collocate with the input word.
+- exampleSentences: Example sentences in {{language}} using the collocate with the input word.
 
 Make sure that the example sentences clearly show how the words are used together.
 `,
@@ -62,12 +140,74 @@ Make sure that the example sentences clearly show how the words are used togethe
 
 const analyzeCollocationsFlow = ai.defineFlow<
   typeof AnalyzeCollocationsInputSchema,
-  typeof AnalyzeCollocationsOutputSchema
+  typeof AnalyzeCollocationsOutputSchema,
+  typeof CollocationSchema
 >({
   name: 'analyzeCollocationsFlow',
   inputSchema: AnalyzeCollocationsInputSchema,
   outputSchema: AnalyzeCollocationsOutputSchema,
-}, async input => {
-  const {output} = await prompt(input);
-  return output!;
+  streamSchema: CollocationSchema,
+}, async (input, {sendChunk}) => {
+  const span = input.span ?? DEFAULT_SPAN;
+  const query = parseNodeQuery(input.word, input.matchLemma);
+  if (input.corpus) {
+    const corpus = await loadCorpus(input.corpus);
+    const analysis = findCollocates(corpus, query, span);
+    const annotate = createAnnotator(input.word, corpus.language);
+    const collocations = analysis.collocates.map(result => withAnnotations(annotate, {
+      collocate: result.collocate,
+      lemma: result.lemma,
+      pos: result.pos,
+      relation: result.relation,
+      frequency: result.measures.observed,
+      exampleSentences: result.exampleSentences,
+      source: 'corpus' as const,
+      statistics: result.measures,
+      positions: result.positions,
+      dispersion: result.dispersion,
+    }));
+    collocations.forEach(collocation => sendChunk(collocation));
+    return {
+      collocations,
+      corpus: {
+        name: corpus.name,
+        language: corpus.language,
+        nodeFrequency: analysis.nodeFrequency,
+        tokenCount: corpus.tokenCount,
+        textCount: corpus.texts.length,
+        span,
+      },
+    };
+  }
+
+  const language = input.language ?? DEFAULT_LANGUAGE;
+  const annotate = createAnnotator(input.word, language);
+  const {stream, response} = prompt.stream({
+    word: query.word,
+    language: LANGUAGE_NAMES[language],
+    pos: query.pos && POS_LABELS[query.pos],
+    ...span,
+  });
+  // Each chunk carries the output parsed so far. The last collocate in it may still be
+  // incomplete, but every one before it is final and can be passed on.
+  let sent = 0;
+  for await (const chunk of stream) {
+    const partial = (chunk.output as Partial<PromptOutput> | null)?.collocations ?? [];
+    while (sent < partial.length - 1) {
+      sendChunk(withAnnotations(annotate, {...partial[sent++], source: 'model'}));
+    }
+  }
+  const {output, text} = await response;
+  assertCompleteJson(text);
+  if (!output) {
+    throw new Error('The model returned no collocations.');
+  }
+  const collocations = output.collocations.map(collocation =>
+    withAnnotations(annotate, {...collocation, source: 'model' as const})
+  );
+  collocations.slice(sent).forEach(collocation => sendChunk(collocation));
+  return {
+    collocations,
+    model: DEFAULT_MODEL,
+  };
 });
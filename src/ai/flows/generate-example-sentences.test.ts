@@ -0,0 +1,102 @@
+import {describe, expect, expectTypeOf, it} from 'vitest';
+import {
+  generateExampleSentences,
+  type GenerateExampleSentencesOutput,
+} from '@/ai/flows/generate-example-sentences';
+import {MAX_WORD_LENGTH} from '@/ai/schemas/analyze-collocations';
+import {
+  GenerateExampleSentencesOutputSchema,
+  MAX_COLLOCATIONS,
+  MAX_SENTENCE_COUNT,
+} from '@/ai/schemas/generate-example-sentences';
+
+// Each word selects a recorded model response in src/ai/fixtures/generate-example-sentences.json.
+
+function expectValidOutput(output: GenerateExampleSentencesOutput) {
+  expectTypeOf(output).toEqualTypeOf<GenerateExampleSentencesOutput>();
+  expect(() => GenerateExampleSentencesOutputSchema.parse(output)).not.toThrow();
+}
+
+describe('generateExampleSentences', () => {
+  it('returns the recorded sentences in the output shape', async () => {
+    const output = await generateExampleSentences({word: 'strong', collocations: ['coffee', 'support']});
+
+    expectValidOutput(output);
+    expect(output.sentences).toEqual(['A strong coffee helps me wake up.', 'The idea won strong support.']);
+    // Each sentence is annotated with the collocation it contains
+    expect(output.annotations.map(annotation => annotation.distance)).toEqual([1, 1]);
+    expect(output.annotations[1].collocate).toEqual([{start: 20, end: 27}]);
+  });
+
+  it('passes the count, level, language and sentences to avoid to the model', async () => {
+    const output = await generateExampleSentences({
+      word: 'fuerte',
+      collocations: ['café'],
+      count: 3,
+      difficulty: 'beginner',
+      language: 'es',
+      exclude: ['Tomo un café fuerte.'],
+    });
+
+    expectValidOutput(output);
+    expect(output.sentences).toHaveLength(3);
+  });
+
+  it('tells the model the part of speech the word is used as', async () => {
+    const output = await generateExampleSentences({word: 'make', pos: 'V', collocations: ['decision']});
+
+    expectValidOutput(output);
+    expect(output.sentences).toEqual(['She made a decision at last.']);
+  });
+
+  it('rejects a count outside the allowed range', async () => {
+    await expect(
+      generateExampleSentences({word: 'strong', collocations: ['coffee'], count: MAX_SENTENCE_COUNT + 1})
+    ).rejects.toThrow();
+  });
+
+  it('returns an empty list when the model has no sentences', async () => {
+    const output = await generateExampleSentences({word: 'nothing', collocations: []});
+
+    expectValidOutput(output);
+    expect(output.sentences).toEqual([]);
+  });
+
+  it('rejects a null output', async () => {
+    const promise = generateExampleSentences({word: 'nulltext', collocations: ['x']});
+
+    await expect(promise).rejects.toThrow();
+    await expect(promise).rejects.not.toBeInstanceOf(TypeError);
+  });
+
+  it('rejects truncated JSON', async () => {
+    await expect(generateExampleSentences({word: 'truncated', collocations: ['x']})).rejects.toThrow(/malformed/);
+  });
+
+  it('rejects JSON of the wrong shape', async () => {
+    await expect(generateExampleSentences({word: 'wrongshape', collocations: ['x']})).rejects.toThrow(
+      /schema validation/i
+    );
+  });
+
+  it('accepts inputs of the maximum size', async () => {
+    const output = await generateExampleSentences({
+      word: 'w'.repeat(MAX_WORD_LENGTH),
+      collocations: Array.from({length: MAX_COLLOCATIONS}, (_, i) => `collocate${i}`.padEnd(MAX_WORD_LENGTH, 'x')),
+    });
+
+    expectValidOutput(output);
+  });
+
+  it('rejects oversized inputs before calling the model', async () => {
+    await expect(
+      generateExampleSentences({word: 'w'.repeat(MAX_WORD_LENGTH + 1), collocations: []})
+    ).rejects.toThrow();
+    await expect(
+      generateExampleSentences({
+        word: 'strong',
+        collocations: Array.from({length: MAX_COLLOCATIONS + 1}, (_, i) => `collocate${i}`),
+      })
+    ).rejects.toThrow();
+  });
+});
@@ -5,30 +5,34 @@
 /**
  * @fileOverview Generates example sentences for given collocations.
  *
+ * The number of sentences, the learner level they are pitched at and their language can be
+ * chosen; sentences already shown can be passed in so that asking again yields new ones.
+ * Each sentence is returned with the character offsets of the word and the collocation in it.
+ *
  * - generateExampleSentences - A function that generates example sentences for collocations.
  * - GenerateExampleSentencesInput - The input type for the generateExampleSentences function.
  * - GenerateExampleSentencesOutput - The return type for the generateExampleSentences function.
  */
 
 import {ai} from '@/ai/ai-instance';
+import {assertCompleteJson} from '@/ai/model-output';
+import {
+  DEFAULT_SENTENCE_COUNT,
+  GenerateExampleSentencesInputSchema,
+  GenerateExampleSentencesOutputSchema,
+  type GenerateExampleSentencesInput,
+  type GenerateExampleSentencesOutput,
+} from '@/ai/schemas/generate-example-sentences';
 import {z} from 'genkit';
+import {createAnnotator} from '@/lib/corpus/annotate';
+import {DEFAULT_LANGUAGE, LANGUAGE_NAMES} from '@/lib/corpus/language';
+import {POS_LABELS} from '@/lib/corpus/pos';
+import {DEFAULT_DIFFICULTY, DIFFICULTY_GUIDANCE} from '@/lib/difficulty';
 
-const GenerateExampleSentencesInputSchema = z.object({
-  word: z.string().describe('The word to generate example sentences for.'),
-  collocations: z.array(z.string()).describe('The collocations to use in the example sentences.'),
-});
-export type GenerateExampleSentencesInput = z.infer<
-  typeof GenerateExampleSentencesInputSchema
->;
-
-const GenerateExampleSentencesOutputSchema = z.object({
-  sentences: z
-    .array(z.string())
-    .describe('The generated example sentences for each collocation.'),
-});
-export type GenerateExampleSentencesOutput = z.infer<
-  typeof GenerateExampleSentencesOutputSchema
->;
+export type {
+  GenerateExampleSentencesInput,
+  GenerateExampleSentencesOutput,
+} from '@/ai/schemas/generate-example-sentences';
 
 export async function generateExampleSentences(
   input: GenerateExampleSentencesInput
@@ -41,9 +45,14 @@ const prompt = ai.definePrompt({
   input: {
     schema: z.object({
       word: z.string().describe('The word to generate example sentences for.'),
+      pos: z.string().optional().describe('The part of speech the word is used as.'),
       collocations: z
         .array(z.string())
         .describe('The collocations to use in the example sentences.'),
+      count: z.number().describe('Sentences per collocation.'),
+      level: z.string().describe('The learners the sentences are written for.'),
+      language: z.string().describe('The language of the sentences.'),
+      exclude: z.array(z.string()).describe('Sentences not to repeat.'),
     }),
   },
   output: {
@@ -53,12 +62,19 @@ const prompt = ai.definePrompt({
         .describe('The generated example sentences for each collocation.'),
     }),
   },
-  prompt: `You are an expert linguist. Generate example sentences for the following collocations of the word '{{word}}'.
+  prompt: `You are an expert linguist and language teacher. Generate {{count}} example sentences in {{language}} for each of the following collocations of the word '{{word}}'{{#if pos}} (used as a {{pos}}){{/if}}. Write them for {{level}}. Each sentence must use the word together with the collocate.
 
 Collocations:
 {{#each collocations}}
 - {{{this}}}
 {{/each}}
+{{#if exclude}}
+
+These sentences have already been shown. Do not repeat them or write close variants of them:
+{{#each exclude}}
+- {{{this}}}
+{{/each}}
+{{/if}}
 
 Sentences:
 `,
@@ -74,7 +90,28 @@ const generateExampleSentencesFlow = ai.defineFlow<
     outputSchema: GenerateExampleSentencesOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const language = input.language ?? DEFAULT_LANGUAGE;
+    const {output, text} = await prompt({
+      word: input.word,
+      pos: input.pos && POS_LABELS[input.pos],
+      collocations: input.collocations,
+      count: input.count ?? DEFAULT_SENTENCE_COUNT,
+      level: DIFFICULTY_GUIDANCE[input.difficulty ?? DEFAULT_DIFFICULTY],
+      language: LANGUAGE_NAMES[language],
+      exclude: input.exclude ?? [],
+    });
+    assertCompleteJson(text);
+    if (!output) {
+      throw new Error('The model returned no example sentences.');
+    }
+    // Sentences are not labelled with their collocation; each is annotated with one found in it
+    const annotate = createAnnotator(input.word, language);
+    const annotations = output.sentences.map(sentence => {
+      const found = input.collocations
+        .map(collocate => annotate(sentence, {collocate}))
+        .find(annotation => annotation.collocate.length > 0);
+      return found ?? annotate(sentence, {collocate: ''});
+    });
+    return {sentences: output.sentences, annotations};
   }
 );
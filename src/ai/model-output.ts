@@ -0,0 +1,21 @@
+/**
+ * @fileOverview Checks on raw model answers that Genkit's output parsing lets through.
+ */
+
+/**
+ * Genkit parses JSON answers leniently, so a truncated answer such as
+ * `{"sentences": ["An unfin` still yields (partial) output. Throws unless the answer holds a
+ * complete JSON value; surrounding prose and code fences are tolerated.
+ */
+export function assertCompleteJson(text: string): void {
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  try {
+    if (start === -1 || end < start) {
+      throw new SyntaxError('No JSON value found.');
+    }
+    JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('The model returned an incomplete or malformed answer. Please try again.');
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Gemini through the Google AI API.
+ */
+
+import {googleAI} from '@genkit-ai/googleai';
+import type {ModelProvider} from '@/ai/providers';
+
+const DEFAULT_MODEL_ID = 'gemini-2.0-flash';
+
+export function googleAIProvider(): ModelProvider {
+  return {
+    plugins: [
+      googleAI({
+        apiKey: process.env.GOOGLE_GENAI_API_KEY,
+      }),
+    ],
+    model: `googleai/${process.env.GOOGLEAI_MODEL || DEFAULT_MODEL_ID}`,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileOverview Registry of the model providers the flows can run against. The
+ * MODEL_PROVIDER environment variable selects one (default: googleai):
+ *
+ * - googleai - Gemini through the Google AI API (GOOGLE_GENAI_API_KEY, GOOGLEAI_MODEL).
+ * - openai-compatible - Any OpenAI-compatible chat completions endpoint, such as a local
+ *   Ollama, llama.cpp or vLLM server (OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODEL,
+ *   OPENAI_COMPATIBLE_API_KEY).
+ * - mock - An offline, deterministic model that answers from JSON fixtures
+ *   (MOCK_MODEL_FIXTURES).
+ */
+
+import type {GenkitPlugin} from 'genkit/plugin';
+import {googleAIProvider} from '@/ai/providers/googleai';
+import {mockProvider} from '@/ai/providers/mock';
+import {openAICompatibleProvider} from '@/ai/providers/openai-compatible';
+
+export interface ModelProvider {
+  /** Genkit plugins that register the provider's models. */
+  plugins: GenkitPlugin[];
+  /** Fully qualified name of the model the flows use, e.g. "googleai/gemini-2.0-flash". */
+  model: string;
+}
+
+const PROVIDERS = {
+  googleai: googleAIProvider,
+  'openai-compatible': openAICompatibleProvider,
+  mock: mockProvider,
+} satisfies Record<string, () => ModelProvider>;
+
+export type ProviderName = keyof typeof PROVIDERS;
+
+export const DEFAULT_PROVIDER: ProviderName = 'googleai';
+
+function isProviderName(name: string): name is ProviderName {
+  return Object.hasOwn(PROVIDERS, name);
+}
+
+/**
+ * Sets up the named provider, by default the one selected by MODEL_PROVIDER.
+ */
+export function resolveModelProvider(name: string = process.env.MODEL_PROVIDER || DEFAULT_PROVIDER): ModelProvider {
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown model provider "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  return PROVIDERS[name]();
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileOverview An offline, deterministic model that answers from JSON fixtures, so the app
+ * and the flows can run without an API key.
+ *
+ * Fixtures are read from the .json files in MOCK_MODEL_FIXTURES (default: src/ai/fixtures),
+ * in file name order. Each file holds an array of fixtures; a request is answered by the
+ * first fixture that
+ *
+ * - has an `output` with the same top-level keys as the requested output schema, or a raw
+ *   `text` answer (for simulating malformed responses), and
+ * - has a `match` regular expression that occurs in the prompt (case-insensitive), or none.
+ */
+
+import {promises as fs} from 'fs';
+import path from 'path';
+import type {GenerateRequest, GenerateResponseChunkData, GenerateResponseData} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+import type {ModelProvider} from '@/ai/providers';
+
+export const MOCK_MODEL = 'mock/fixtures';
+
+// Streamed answers are split into pieces of this many characters.
+const CHUNK_SIZE = 64;
+
+export interface MockFixture {
+  /** Regular expression the prompt must match, e.g. "word: strong\\b". */
+  match?: string;
+  /** The structured answer, serialized as JSON. */
+  output?: unknown;
+  /** A raw text answer, used verbatim instead of `output`. */
+  text?: string;
+}
+
+let fixturesPromise: Promise<MockFixture[]> | null = null;
+
+async function readFixtures(dir: string): Promise<MockFixture[]> {
+  const files = (await fs.readdir(dir)).filter(file => file.endsWith('.json')).sort();
+  const fixtures = await Promise.all(
+    files.map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as MockFixture[])
+  );
+  return fixtures.flat();
+}
+
+function loadFixtures(): Promise<MockFixture[]> {
+  if (!fixturesPromise) {
+    const dir = process.env.MOCK_MODEL_FIXTURES || path.join(process.cwd(), 'src', 'ai', 'fixtures');
+    fixturesPromise = readFixtures(dir).catch(error => {
+      fixturesPromise = null;
+      throw error;
+    });
+  }
+  return fixturesPromise;
+}
+
+// The prompt as written, without the output format instructions Genkit appends.
+function promptText(request: GenerateRequest): string {
+  return request.messages
+    .flatMap(message => message.content)
+    .filter(part => part.metadata?.purpose !== 'output')
+    .map(part => part.text ?? '')
+    .join('\n');
+}
+
+function sameKeys(output: unknown, schema: {properties?: Record<string, unknown>} | undefined): boolean {
+  const expected = Object.keys(schema?.properties ?? {}).sort();
+  if (!output || typeof output !== 'object' || Array.isArray(output)) {
+    return expected.length === 0;
+  }
+  return Object.keys(output).sort().join() === expected.join();
+}
+
+/**
+ * Picks the fixture that answers a request, or undefined if none does.
+ */
+export function findFixture(fixtures: MockFixture[], request: GenerateRequest): MockFixture | undefined {
+  const prompt = promptText(request);
+  return fixtures.find(
+    fixture =>
+      (fixture.text !== undefined || sameKeys(fixture.output, request.output?.schema)) &&
+      (!fixture.match || new RegExp(fixture.match, 'i').test(prompt))
+  );
+}
+
+async function answer(
+  request: GenerateRequest,
+  streamingCallback?: (chunk: GenerateResponseChunkData) => void
+): Promise<GenerateResponseData> {
+  const fixture = findFixture(await loadFixtures(), request);
+  if (!fixture) {
+    throw new Error('No mock model fixture matches this request.');
+  }
+  const text = fixture.text ?? JSON.stringify(fixture.output);
+  if (streamingCallback) {
+    for (let start = 0; start < text.length; start += CHUNK_SIZE) {
+      streamingCallback({content: [{text: text.slice(start, start + CHUNK_SIZE)}]});
+    }
+  }
+  return {
+    message: {role: 'model', content: [{text}]},
+    finishReason: 'stop',
+  };
+}
+
+export function mockProvider(): ModelProvider {
+  return {
+    plugins: [
+      genkitPlugin('mock', ai => {
+        ai.defineModel(
+          {
+            name: MOCK_MODEL,
+            label: 'Mock model (fixtures)',
+            // Declaring constrained output makes Genkit pass the output schema through, which
+            // fixtures are matched against, instead of writing it into the prompt.
+            supports: {
+              multiturn: true,
+              systemRole: true,
+              media: false,
+              tools: false,
+              output: ['text', 'json'],
+              constrained: 'all',
+            },
+          },
+          answer
+        );
+      }),
+    ],
+    model: MOCK_MODEL,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileOverview Models served by any OpenAI-compatible chat completions endpoint.
+ *
+ * Only text is exchanged. Structured output relies on the JSON instructions Genkit adds to
+ * the prompt (not every server supports JSON schemas), plus the endpoint's JSON mode.
+ */
+
+import type {GenerateRequest, GenerateResponseChunkData, GenerateResponseData, MessageData} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+import type {ModelProvider} from '@/ai/providers';
+
+// Ollama's default address; llama.cpp and vLLM servers expose the same API.
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL_ID = 'llama3.1';
+
+type FinishReason = NonNullable<GenerateResponseData['finishReason']>;
+
+const FINISH_REASONS: Record<string, FinishReason> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'blocked',
+};
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+}
+
+function toChatMessage(message: MessageData): ChatMessage {
+  return {
+    role: message.role === 'model' ? 'assistant' : message.role,
+    content: message.content.map(part => part.text ?? '').join(''),
+  };
+}
+
+interface Endpoint {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+// Genkit marks the output format instructions it adds to the prompt.
+function expectsJson(request: GenerateRequest): boolean {
+  return request.messages.some(message => message.content.some(part => part.metadata?.purpose === 'output'));
+}
+
+async function complete(
+  endpoint: Endpoint,
+  request: GenerateRequest,
+  streamingCallback?: (chunk: GenerateResponseChunkData) => void
+): Promise<GenerateResponseData> {
+  const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(endpoint.apiKey ? {Authorization: `Bearer ${endpoint.apiKey}`} : {}),
+    },
+    body: JSON.stringify({
+      model: endpoint.model,
+      messages: request.messages.map(toChatMessage),
+      temperature: request.config?.temperature,
+      max_tokens: request.config?.maxOutputTokens,
+      response_format: expectsJson(request) ? {type: 'json_object'} : undefined,
+      stream: !!streamingCallback,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`The model endpoint returned ${response.status}: ${await response.text()}`);
+  }
+
+  let text = '';
+  let finishReason: string | undefined;
+  if (!streamingCallback || !response.body) {
+    const data = await response.json();
+    text = data.choices?.[0]?.message?.content ?? '';
+    finishReason = data.choices?.[0]?.finish_reason;
+  } else {
+    // Server-sent events: one `data: {...}` line per delta, ending with `data: [DONE]`.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      buffer += result.value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || data === '[DONE]') {
+          continue;
+        }
+        const choice = JSON.parse(data).choices?.[0];
+        const delta: string = choice?.delta?.content ?? '';
+        finishReason = choice?.finish_reason ?? finishReason;
+        if (delta) {
+          text += delta;
+          streamingCallback({content: [{text: delta}]});
+        }
+      }
+    }
+  }
+
+  return {
+    message: {role: 'model', content: [{text}]},
+    finishReason: (finishReason && FINISH_REASONS[finishReason]) || 'unknown',
+  };
+}
+
+export function openAICompatibleProvider(): ModelProvider {
+  const endpoint: Endpoint = {
+    baseUrl: (process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    model: process.env.OPENAI_COMPATIBLE_MODEL || DEFAULT_MODEL_ID,
+  };
+  const name = `openai-compatible/${endpoint.model}`;
+  return {
+    plugins: [
+      genkitPlugin('openai-compatible', ai => {
+        ai.defineModel(
+          {
+            name,
+            label: `OpenAI-compatible - ${endpoint.model}`,
+            supports: {multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json']},
+          },
+          (request, streamingCallback) => complete(endpoint, request, streamingCallback)
+        );
+      }),
+    ],
+    model: name,
+  };
+}
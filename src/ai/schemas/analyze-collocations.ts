@@ -0,0 +1,98 @@
+/**
+ * @fileOverview Input and output schemas of the collocation analysis, shared by the flow, its
+ * API routes and its tests. Kept apart from the flow because a 'use server' module may only
+ * export async functions.
+ */
+
+import {z} from 'genkit';
+import {LANGUAGES} from '@/lib/corpus/language';
+import {POS_TAGS} from '@/lib/corpus/pos';
+import {RELATIONS} from '@/lib/corpus/relations';
+
+// Largest window on either side of the node, as in WordSmith's L5..R5 columns.
+export const MAX_SPAN = 5;
+export const DEFAULT_SPAN = {left: 5, right: 5};
+// Longest accepted query; collocation queries are single words or short phrases.
+export const MAX_WORD_LENGTH = 100;
+
+export const AnalyzeCollocationsInputSchema = z.object({
+  word: z.string().regex(/\S/).max(MAX_WORD_LENGTH).describe('The word to find collocations for, optionally as lemma_POS (e.g. "make_V").'),
+  matchLemma: z.boolean().optional().describe('Match all inflected forms of the word (implied by a _POS suffix).'),
+  language: z.enum(LANGUAGES).optional()
+    .describe('Language of the word (default en). Corpus searches use the language of the corpus.'),
+  corpus: z.string().optional().describe('Name of a local corpus to compute collocations from.'),
+  span: z.object({
+    left: z.number().int().min(0).max(MAX_SPAN).describe('Words to the left of the node word.'),
+    right: z.number().int().min(0).max(MAX_SPAN).describe('Words to the right of the node word.'),
+  }).optional().describe('The collocation window around the node word (default 5L-5R).'),
+});
+export type AnalyzeCollocationsInput = z.infer<typeof AnalyzeCollocationsInputSchema>;
+
+export const CollocationStatisticsSchema = z.object({
+  observed: z.number().describe('Observed co-occurrence frequency within the span.'),
+  expected: z.number().describe('Expected co-occurrence frequency under independence.'),
+  mi: z.number().describe('Mutual information.'),
+  mi3: z.number().describe('Cubic mutual information.'),
+  tScore: z.number().describe('t-score.'),
+  logLikelihood: z.number().describe('Log-likelihood (G2).'),
+  dice: z.number().describe('Dice coefficient.'),
+  logDice: z.number().describe('logDice.'),
+});
+export type CollocationStatistics = z.infer<typeof CollocationStatisticsSchema>;
+
+const TextSpanSchema = z.object({
+  start: z.number().describe('Offset of the first character.'),
+  end: z.number().describe('Offset just past the last character.'),
+});
+
+export const SentenceAnnotationSchema = z.object({
+  node: z.array(TextSpanSchema).describe('Where the words of the node are in the sentence.'),
+  collocate: z.array(TextSpanSchema).describe('Where the words of the collocate are in the sentence.'),
+  distance: z.number().nullable()
+    .describe('Words from the node to the collocate, negative to the left; null unless both were found.'),
+});
+export type SentenceAnnotation = z.infer<typeof SentenceAnnotationSchema>;
+
+export const CollocationSchema = z.object({
+  collocate: z.string().describe('The collocate.'),
+  lemma: z.string().describe('The lemma of the collocate.'),
+  pos: z.enum(POS_TAGS).describe('The part of speech of the collocate.'),
+  relation: z.enum(RELATIONS).describe('The grammatical relation between the input word and the collocate.'),
+  frequency: z.number().describe('The frequency of the collocate with the input word.'),
+  exampleSentences: z.array(z.string()).describe('Example sentences using the collocate with the input word.'),
+  annotations: z.array(SentenceAnnotationSchema).optional()
+    .describe('Where the node and collocate are in each example sentence.'),
+  source: z.enum(['corpus', 'model']).describe('Whether the frequency was counted in a corpus or estimated by the model.'),
+  statistics: CollocationStatisticsSchema.optional().describe('Association measures, present for corpus results.'),
+  positions: z.object({
+    left: z.array(z.number()).describe('Co-occurrences at L1, L2, ... (nearest first).'),
+    right: z.array(z.number()).describe('Co-occurrences at R1, R2, ... (nearest first).'),
+  }).optional().describe('Positional frequency breakdown, present for corpus results.'),
+  dispersion: z.object({
+    range: z.number().describe('Number of texts the co-occurrences are found in.'),
+    juillandD: z.number().nullable().describe("Juilland's D of the co-occurrences across texts."),
+  }).optional().describe('Dispersion across texts, present for corpus results.'),
+  verification: z.object({
+    corpus: z.string().describe('The corpus the collocate was checked against.'),
+    attested: z.boolean().describe('Whether the collocate co-occurs with the node within the span.'),
+    coOccurrences: z.number().describe('Actual co-occurrences with the node within the span.'),
+    sentencesAttested: z.array(z.boolean()).describe('Whether each example sentence occurs in the corpus.'),
+  }).optional().describe('Corpus check of a model suggestion, present when verification was requested.'),
+});
+export type Collocation = z.infer<typeof CollocationSchema>;
+
+export const AnalyzeCollocationsOutputSchema = z.object({
+  collocations: z.array(CollocationSchema)
+    .describe('The statistically significant and contextually relevant collocations for the input word.'),
+  corpus: z.object({
+    name: z.string(),
+    language: z.enum(LANGUAGES),
+    nodeFrequency: z.number(),
+    tokenCount: z.number(),
+    textCount: z.number(),
+    span: z.object({left: z.number(), right: z.number()}),
+  }).optional().describe('The corpus the collocations were computed from, if any.'),
+  model: z.string().optional().describe('The model that suggested the collocations, for model results.'),
+  fromCache: z.boolean().optional().describe('Whether the result was served from the cache.'),
+});
+export type AnalyzeCollocationsOutput = z.infer<typeof AnalyzeCollocationsOutputSchema>;
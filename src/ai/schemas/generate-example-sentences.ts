@@ -0,0 +1,50 @@
+/**
+ * @fileOverview Input and output schemas of example sentence generation, shared by the flow,
+ * its API routes and its tests.
+ */
+
+import {z} from 'genkit';
+import {MAX_WORD_LENGTH, SentenceAnnotationSchema} from '@/ai/schemas/analyze-collocations';
+import {LANGUAGES} from '@/lib/corpus/language';
+import {POS_TAGS} from '@/lib/corpus/pos';
+import {DIFFICULTIES} from '@/lib/difficulty';
+import {MAX_EXCLUDED_SENTENCES, MAX_SENTENCE_LENGTH} from '@/lib/example-sentences';
+
+// More collocations than this do not fit usefully into one answer.
+export const MAX_COLLOCATIONS = 50;
+// Sentences per collocation; more are better asked for again with `exclude`.
+export const MAX_SENTENCE_COUNT = 10;
+export const DEFAULT_SENTENCE_COUNT = 2;
+
+export const GenerateExampleSentencesInputSchema = z.object({
+  word: z.string().regex(/\S/).max(MAX_WORD_LENGTH).describe('The word to generate example sentences for.'),
+  pos: z.enum(POS_TAGS).optional().describe('The part of speech the word is used as, e.g. V for "make_V".'),
+  collocations: z
+    .array(z.string().max(MAX_WORD_LENGTH))
+    .max(MAX_COLLOCATIONS)
+    .describe('The collocations to use in the example sentences.'),
+  count: z.number().int().min(1).max(MAX_SENTENCE_COUNT).optional()
+    .describe(`Sentences per collocation (default ${DEFAULT_SENTENCE_COUNT}).`),
+  difficulty: z.enum(DIFFICULTIES).optional().describe('The learner level to pitch the sentences at (default intermediate).'),
+  language: z.enum(LANGUAGES).optional().describe('Language of the word and the sentences (default en).'),
+  exclude: z
+    .array(z.string().max(MAX_SENTENCE_LENGTH))
+    .max(MAX_EXCLUDED_SENTENCES)
+    .optional()
+    .describe('Sentences already shown, which the answer must not repeat.'),
+});
+export type GenerateExampleSentencesInput = z.infer<
+  typeof GenerateExampleSentencesInputSchema
+>;
+
+export const GenerateExampleSentencesOutputSchema = z.object({
+  sentences: z
+    .array(z.string())
+    .describe('The generated example sentences for each collocation.'),
+  annotations: z
+    .array(SentenceAnnotationSchema)
+    .describe('Where the word and the collocation are in each sentence.'),
+});
+export type GenerateExampleSentencesOutput = z.infer<
+  typeof GenerateExampleSentencesOutputSchema
+>;
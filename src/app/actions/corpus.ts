@@ -0,0 +1,129 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for managing local corpora.
+ *
+ * - uploadCorpus - Ingests uploaded .txt/.zip files and stores them as a named corpus
+ *   (replacing a corpus of the same name only when the form asks to).
+ * - listCorpusNames - Lists the corpora that searches can target.
+ * - getConcordance - Returns a sorted page of KWIC lines for a word in a corpus.
+ * - getClusters - Returns the recurrent clusters containing a word in a corpus.
+ * - getKeywords - Compares a study corpus against a reference corpus.
+ * - getDispersion - Locates every hit of a word across the texts of a corpus.
+ * - CorpusSummary - The return type for the uploadCorpus function.
+ */
+
+import {findClusters, type Cluster} from '@/lib/corpus/clusters';
+import {
+  getConcordancePage,
+  type ConcordancePage,
+  type ConcordanceSortKey,
+} from '@/lib/corpus/concordance';
+import {findDispersion, type DispersionAnalysis} from '@/lib/corpus/dispersion';
+import {ingestFiles} from '@/lib/corpus/ingest';
+import {findKeywords, type KeywordAnalysis} from '@/lib/corpus/keywords';
+import {DEFAULT_LANGUAGE, isLanguage, type Language} from '@/lib/corpus/language';
+import {parseNodeQuery} from '@/lib/corpus/pos';
+import {corpusExists, isValidCorpusName, listCorpora, loadCorpus, saveCorpus} from '@/lib/corpus/store';
+
+export interface CorpusSummary {
+  name: string;
+  language: Language;
+  textCount: number;
+  sentenceCount: number;
+  tokenCount: number;
+}
+
+export async function uploadCorpus(formData: FormData): Promise<CorpusSummary> {
+  const name = String(formData.get('name') ?? '').trim();
+  if (!isValidCorpusName(name)) {
+    throw new Error('Corpus names may only contain letters, digits, ".", "-" and "_".');
+  }
+
+  // Checked before ingesting, which can take a while for a large upload
+  const replace = formData.get('replace') === 'true';
+  if (!replace && (await corpusExists(name))) {
+    throw new Error(`Corpus "${name}" already exists. Choose another name or replace it.`);
+  }
+
+  const language = formData.get('language') ?? DEFAULT_LANGUAGE;
+  if (!isLanguage(language)) {
+    throw new Error(`Unsupported language "${language}".`);
+  }
+
+  const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+  if (files.length === 0) {
+    throw new Error('Please choose at least one .txt or .zip file.');
+  }
+
+  const uploads = await Promise.all(
+    files.map(async file => ({name: file.name, data: new Uint8Array(await file.arrayBuffer())}))
+  );
+  const corpus = ingestFiles(name, uploads, language);
+  await saveCorpus(corpus, {replace});
+
+  return {
+    name: corpus.name,
+    language: corpus.language,
+    textCount: corpus.texts.length,
+    sentenceCount: corpus.texts.reduce((sum, text) => sum + text.sentences.length, 0),
+    tokenCount: corpus.tokenCount,
+  };
+}
+
+export async function listCorpusNames(): Promise<string[]> {
+  return listCorpora();
+}
+
+export async function getConcordance(input: {
+  corpus: string;
+  word: string;
+  matchLemma?: boolean;
+  sortBy?: ConcordanceSortKey;
+  page?: number;
+  pageSize?: number;
+}): Promise<ConcordancePage> {
+  const corpus = await loadCorpus(input.corpus);
+  return getConcordancePage(corpus, parseNodeQuery(input.word, input.matchLemma), {
+    sortBy: input.sortBy,
+    page: input.page,
+    pageSize: input.pageSize,
+  });
+}
+
+export async function getClusters(input: {
+  corpus: string;
+  word: string;
+  matchLemma?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  minFrequency?: number;
+}): Promise<Cluster[]> {
+  const corpus = await loadCorpus(input.corpus);
+  return findClusters(corpus, parseNodeQuery(input.word, input.matchLemma), {
+    minLength: input.minLength,
+    maxLength: input.maxLength,
+    minFrequency: input.minFrequency,
+  });
+}
+
+export async function getKeywords(input: {
+  study: string;
+  reference: string;
+  minFrequency?: number;
+}): Promise<KeywordAnalysis> {
+  if (input.study === input.reference) {
+    throw new Error('Choose two different corpora to compare.');
+  }
+  const [study, reference] = await Promise.all([loadCorpus(input.study), loadCorpus(input.reference)]);
+  return findKeywords(study, reference, {minFrequency: input.minFrequency});
+}
+
+export async function getDispersion(input: {
+  corpus: string;
+  word: string;
+  matchLemma?: boolean;
+}): Promise<DispersionAnalysis> {
+  const corpus = await loadCorpus(input.corpus);
+  return findDispersion(corpus, parseNodeQuery(input.word, input.matchLemma));
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview `GET /api/collocations` - runs a collocation analysis and returns it as JSON.
+ *
+ * Query parameters mirror the analyzeCollocations input: `word` (required), `matchLemma`,
+ * `language`, `corpus`, `left` and `right` for the span, plus `refresh` and `verifyAgainst`.
+ * See /api/openapi.json for the full description.
+ */
+
+import {analyzeCollocations} from '@/ai/flows/analyze-collocations';
+import {AnalyzeCollocationsInputSchema} from '@/ai/schemas/analyze-collocations';
+import {apiError, internalError, validationError} from '@/app/api/errors';
+import {z} from 'genkit';
+import {listCorpora} from '@/lib/corpus/store';
+
+const DEFAULT_SPAN_SIDE = 5;
+
+// Query values are strings; booleans are accepted as true/false or 1/0.
+const BooleanParam = z.enum(['true', 'false', '1', '0']).transform(value => value === 'true' || value === '1');
+const IntegerParam = z.string().regex(/^\d+$/, 'Expected a whole number').transform(Number);
+
+const CollocationsQuerySchema = z.object({
+  word: z.string({required_error: 'Required'}),
+  matchLemma: BooleanParam.optional(),
+  language: z.string().optional(),
+  corpus: z.string().optional(),
+  left: IntegerParam.optional(),
+  right: IntegerParam.optional(),
+  refresh: BooleanParam.optional(),
+  verifyAgainst: z.string().optional(),
+});
+
+export async function GET(request: Request): Promise<Response> {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const query = CollocationsQuerySchema.safeParse(params);
+  if (!query.success) {
+    return validationError(query.error);
+  }
+  const {left, right, refresh, verifyAgainst, ...rest} = query.data;
+  const input = AnalyzeCollocationsInputSchema.safeParse({
+    ...rest,
+    span: left === undefined && right === undefined
+      ? undefined
+      : {left: left ?? DEFAULT_SPAN_SIDE, right: right ?? DEFAULT_SPAN_SIDE},
+  });
+  if (!input.success) {
+    return validationError(input.error);
+  }
+
+  const corpora = await listCorpora();
+  for (const name of [input.data.corpus, verifyAgainst]) {
+    if (name && !corpora.includes(name)) {
+      return apiError('NOT_FOUND', `Corpus "${name}" does not exist.`);
+    }
+  }
+
+  try {
+    return Response.json(await analyzeCollocations(input.data, {refresh, verifyAgainst}));
+  } catch (error) {
+    console.error('Failed to analyze collocations:', error);
+    return internalError(error);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileOverview Streams collocation results as server-sent events.
+ *
+ * Uses the same envelope as Genkit's flow endpoints: one `data: {"message": collocation}` event
+ * per collocate as soon as it is complete, then `data: {"result": output}`, or
+ * `data: {"error": {"code": "INTERNAL", "message": ...}}` if the analysis fails. Invalid
+ * requests and unknown corpora are rejected up front with the JSON errors of the other API
+ * routes.
+ */
+
+import {analyzeCollocations} from '@/ai/flows/analyze-collocations';
+import {AnalyzeCollocationsInputSchema} from '@/ai/schemas/analyze-collocations';
+import {apiError, validationError, type ApiError} from '@/app/api/errors';
+import {z} from 'genkit';
+import {listCorpora} from '@/lib/corpus/store';
+
+const StreamCollocationsRequestSchema = z.object({
+  input: AnalyzeCollocationsInputSchema,
+  refresh: z.boolean().optional(),
+  verifyAgainst: z.string().optional(),
+});
+export type StreamCollocationsRequest = z.infer<typeof StreamCollocationsRequestSchema>;
+
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('INVALID_ARGUMENT', 'The request body must be JSON.');
+  }
+  const parsed = StreamCollocationsRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const {input, refresh, verifyAgainst} = parsed.data;
+
+  const corpora = await listCorpora();
+  for (const name of [input.corpus, verifyAgainst]) {
+    if (name && !corpora.includes(name)) {
+      return apiError('NOT_FOUND', `Corpus "${name}" does not exist.`);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const {readable, writable} = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  // Once the client cancels, events are dropped. The model call itself cannot be aborted, but
+  // it still completes into the cache, so the next search for the word is served instantly.
+  const send = (event: unknown) => {
+    if (!request.signal.aborted) {
+      writer.write(encoder.encode(`data: ${JSON.stringify(event)}\n\n`)).catch(() => {});
+    }
+  };
+
+  (async () => {
+    try {
+      const result = await analyzeCollocations(input, {
+        refresh,
+        verifyAgainst,
+        onCollocation: message => send({message}),
+      });
+      send({result});
+    } catch (error) {
+      console.error('Failed to stream collocations:', error);
+      const event: ApiError = {error: {code: 'INTERNAL', message: error instanceof Error ? error.message : String(error)}};
+      send(event);
+    } finally {
+      writer.close().catch(() => {});
+    }
+  })();
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
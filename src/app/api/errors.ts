@@ -0,0 +1,52 @@
+/**
+ * @fileOverview The JSON error envelope shared by the API routes.
+ *
+ * Every failed request answers with `{"error": {"code", "message", "issues"?}}` and a matching
+ * HTTP status, so callers can branch on `code` without parsing messages.
+ */
+
+import type {z} from 'genkit';
+
+export const API_ERROR_STATUS = {
+  INVALID_ARGUMENT: 400,
+  NOT_FOUND: 404,
+  INTERNAL: 500,
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+export interface ApiIssue {
+  /** Dotted path of the offending field, e.g. "span.left". Empty for the request as a whole. */
+  path: string;
+  message: string;
+}
+
+export interface ApiError {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** Per-field problems, present for INVALID_ARGUMENT errors. */
+    issues?: ApiIssue[];
+  };
+}
+
+export function apiError(code: ApiErrorCode, message: string, issues?: ApiIssue[]): Response {
+  const body: ApiError = {error: {code, message, issues}};
+  return Response.json(body, {status: API_ERROR_STATUS[code]});
+}
+
+/**
+ * Reports a failed schema validation, with one issue per invalid field.
+ */
+export function validationError(error: z.ZodError): Response {
+  const issues = error.issues.map(issue => ({path: issue.path.join('.'), message: issue.message}));
+  const summary = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+  return apiError('INVALID_ARGUMENT', `Invalid request. ${summary}`, issues);
+}
+
+/**
+ * Reports an unexpected failure, such as the model being unreachable or answering badly.
+ */
+export function internalError(error: unknown): Response {
+  return apiError('INTERNAL', error instanceof Error ? error.message : String(error));
+}
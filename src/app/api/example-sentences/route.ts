@@ -0,0 +1,29 @@
+/**
+ * @fileOverview `POST /api/example-sentences` - generates example sentences for a word and
+ * its collocations. The JSON body is the generateExampleSentences input; see
+ * /api/openapi.json for the full description.
+ */
+
+import {generateExampleSentences} from '@/ai/flows/generate-example-sentences';
+import {GenerateExampleSentencesInputSchema} from '@/ai/schemas/generate-example-sentences';
+import {apiError, internalError, validationError} from '@/app/api/errors';
+
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('INVALID_ARGUMENT', 'The request body must be JSON.');
+  }
+  const input = GenerateExampleSentencesInputSchema.safeParse(body);
+  if (!input.success) {
+    return validationError(input.error);
+  }
+
+  try {
+    return Response.json(await generateExampleSentences(input.data));
+  } catch (error) {
+    console.error('Failed to generate example sentences:', error);
+    return internalError(error);
+  }
+}
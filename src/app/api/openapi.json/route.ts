@@ -0,0 +1,151 @@
+/**
+ * @fileOverview `GET /api/openapi.json` - the OpenAPI document of the public API routes.
+ *
+ * Request and response bodies are generated from the same zod schemas the routes validate
+ * against, so the document cannot drift from what the routes accept and return.
+ */
+
+import type {z} from 'genkit';
+import {toJsonSchema, type JSONSchema} from 'genkit/schema';
+import {
+  AnalyzeCollocationsInputSchema,
+  AnalyzeCollocationsOutputSchema,
+  MAX_SPAN,
+} from '@/ai/schemas/analyze-collocations';
+import {
+  GenerateExampleSentencesInputSchema,
+  GenerateExampleSentencesOutputSchema,
+} from '@/ai/schemas/generate-example-sentences';
+import {API_ERROR_STATUS} from '@/app/api/errors';
+
+// OpenAPI 3.1 schemas use the document's JSON Schema dialect, so the draft-07 marker goes.
+function schemaOf(schema: z.ZodTypeAny): JSONSchema {
+  const {$schema, ...rest} = toJsonSchema({schema})!;
+  return rest;
+}
+
+const json = (schema: JSONSchema) => ({'application/json': {schema}});
+const ref = (name: string) => ({$ref: `#/components/schemas/${name}`});
+const errorResponse = (description: string) => ({description, content: json(ref('Error'))});
+
+function buildDocument() {
+  const analyzeInput = schemaOf(AnalyzeCollocationsInputSchema);
+  const span = analyzeInput.properties.span.properties;
+  const query = (name: string, schema: JSONSchema, description: string, required = false) => ({
+    name,
+    in: 'query',
+    required,
+    description,
+    schema,
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Wordsmith Collocates API',
+      version: '1.0.0',
+      description: 'Collocation analysis and example sentences, from a local corpus or a language model.',
+    },
+    paths: {
+      '/api/collocations': {
+        get: {
+          operationId: 'analyzeCollocations',
+          summary: 'Find the collocates of a word.',
+          parameters: [
+            query('word', {type: 'string'}, analyzeInput.properties.word.description, true),
+            query('matchLemma', {type: 'boolean'}, analyzeInput.properties.matchLemma.description),
+            query('language', analyzeInput.properties.language, analyzeInput.properties.language.description),
+            query('corpus', {type: 'string'}, analyzeInput.properties.corpus.description),
+            query('left', {type: 'integer', minimum: 0, maximum: MAX_SPAN}, `${span.left.description} Default 5.`),
+            query('right', {type: 'integer', minimum: 0, maximum: MAX_SPAN}, `${span.right.description} Default 5.`),
+            query('refresh', {type: 'boolean'}, 'Bypass the result cache and replace the cached entry.'),
+            query('verifyAgainst', {type: 'string'}, 'Name of a corpus to check model suggestions against.'),
+          ],
+          responses: {
+            200: {description: 'The collocations.', content: json(ref('AnalyzeCollocationsOutput'))},
+            [API_ERROR_STATUS.INVALID_ARGUMENT]: errorResponse('A parameter is missing or invalid.'),
+            [API_ERROR_STATUS.NOT_FOUND]: errorResponse('The corpus or verification corpus does not exist.'),
+            [API_ERROR_STATUS.INTERNAL]: errorResponse('The analysis failed, e.g. because the model answered badly.'),
+          },
+        },
+      },
+      '/api/collocations/stream': {
+        post: {
+          operationId: 'streamCollocations',
+          summary: 'Find the collocates of a word, streaming each one as it is complete.',
+          requestBody: {
+            required: true,
+            content: json({
+              type: 'object',
+              properties: {
+                input: ref('AnalyzeCollocationsInput'),
+                refresh: {type: 'boolean', description: 'Bypass the result cache and replace the cached entry.'},
+                verifyAgainst: {type: 'string', description: 'Name of a corpus to check model suggestions against.'},
+              },
+              required: ['input'],
+            }),
+          },
+          responses: {
+            200: {
+              description:
+                'Server-sent events: one `{"message": Collocation}` per collocate, then `{"result": AnalyzeCollocationsOutput}`, ' +
+                'or `{"error": {"code", "message"}}` if the analysis fails.',
+              content: {'text/event-stream': {schema: {type: 'string'}}},
+            },
+            [API_ERROR_STATUS.INVALID_ARGUMENT]: errorResponse('The body is not JSON or the input is invalid.'),
+            [API_ERROR_STATUS.NOT_FOUND]: errorResponse('The corpus or verification corpus does not exist.'),
+          },
+        },
+      },
+      '/api/example-sentences': {
+        post: {
+          operationId: 'generateExampleSentences',
+          summary: 'Generate example sentences that use a word with its collocations.',
+          requestBody: {required: true, content: json(ref('GenerateExampleSentencesInput'))},
+          responses: {
+            200: {description: 'The example sentences.', content: json(ref('GenerateExampleSentencesOutput'))},
+            [API_ERROR_STATUS.INVALID_ARGUMENT]: errorResponse('The body is not JSON or the input is invalid.'),
+            [API_ERROR_STATUS.INTERNAL]: errorResponse('Generation failed, e.g. because the model answered badly.'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        AnalyzeCollocationsInput: analyzeInput,
+        AnalyzeCollocationsOutput: schemaOf(AnalyzeCollocationsOutputSchema),
+        GenerateExampleSentencesInput: schemaOf(GenerateExampleSentencesInputSchema),
+        GenerateExampleSentencesOutput: schemaOf(GenerateExampleSentencesOutputSchema),
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                code: {type: 'string', enum: Object.keys(API_ERROR_STATUS)},
+                message: {type: 'string'},
+                issues: {
+                  type: 'array',
+                  description: 'Per-field problems, present for INVALID_ARGUMENT errors.',
+                  items: {
+                    type: 'object',
+                    properties: {path: {type: 'string'}, message: {type: 'string'}},
+                    required: ['path', 'message'],
+                  },
+                },
+              },
+              required: ['code', 'message'],
+            },
+          },
+          required: ['error'],
+        },
+      },
+    },
+  };
+}
+
+const document = buildDocument();
+
+export async function GET(): Promise<Response> {
+  return Response.json(document);
+}
@@ -0,0 +1,117 @@
+import {describe, expect, it} from 'vitest';
+import {GET as getCollocations} from '@/app/api/collocations/route';
+import {POST as postStream} from '@/app/api/collocations/stream/route';
+import {POST as postExampleSentences} from '@/app/api/example-sentences/route';
+import {GET as getOpenApi} from '@/app/api/openapi.json/route';
+import {AnalyzeCollocationsOutputSchema} from '@/ai/schemas/analyze-collocations';
+
+// The routes answer from the recorded responses in src/ai/fixtures.
+
+const get = (query: string) => getCollocations(new Request(`http://localhost/api/collocations?${query}`));
+const stream = (body: unknown) =>
+  postStream(new Request('http://localhost/api/collocations/stream', {method: 'POST', body: JSON.stringify(body)}));
+const post = (body: string) =>
+  postExampleSentences(new Request('http://localhost/api/example-sentences', {method: 'POST', body}));
+
+describe('GET /api/collocations', () => {
+  it('returns the analysis as JSON', async () => {
+    const response = await get('word=strong&left=2&refresh=true');
+
+    expect(response.status).toBe(200);
+    const output = AnalyzeCollocationsOutputSchema.parse(await response.json());
+    expect(output.collocations.map(c => c.collocate)).toEqual(['coffee', 'support', 'very']);
+  });
+
+  it('rejects invalid parameters with one issue per field', async () => {
+    const response = await get('word=%20&left=9&matchLemma=maybe');
+
+    expect(response.status).toBe(400);
+    const {error} = await response.json();
+    expect(error.code).toBe('INVALID_ARGUMENT');
+    expect(error.issues.map((issue: {path: string}) => issue.path)).toEqual(['matchLemma']);
+
+    const span = await (await get('word=%20&left=9')).json();
+    expect(span.error.issues.map((issue: {path: string}) => issue.path).sort()).toEqual(['span.left', 'word']);
+  });
+
+  it('requires a word', async () => {
+    const response = await get('language=en');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.issues).toEqual([{path: 'word', message: 'Required'}]);
+  });
+
+  it('reports an unknown corpus as not found', async () => {
+    const response = await get('word=strong&verifyAgainst=missing');
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toEqual({code: 'NOT_FOUND', message: 'Corpus "missing" does not exist.'});
+  });
+
+  it('reports a failed analysis as an internal error', async () => {
+    const response = await get('word=truncated&refresh=1');
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.code).toBe('INTERNAL');
+  });
+});
+
+describe('POST /api/collocations/stream', () => {
+  it('streams each collocate, then the result', async () => {
+    const response = await stream({input: {word: 'strong'}, refresh: true});
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = (await response.text()).trim().split('\n\n').map(event => JSON.parse(event.replace(/^data: /, '')));
+    expect(events.filter(event => event.message).map(event => event.message.collocate)).toEqual(['coffee', 'support', 'very']);
+    expect(events[events.length - 1].result.collocations).toHaveLength(3);
+  });
+
+  it('validates the whole body', async () => {
+    const response = await stream({input: {word: 'strong'}, refresh: 'yes', verifyAgainst: 3});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.issues.map((issue: {path: string}) => issue.path).sort()).toEqual([
+      'refresh',
+      'verifyAgainst',
+    ]);
+  });
+
+  it('reports an unknown corpus as not found before streaming', async () => {
+    const response = await stream({input: {word: 'strong'}, verifyAgainst: 'missing'});
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toEqual({code: 'NOT_FOUND', message: 'Corpus "missing" does not exist.'});
+  });
+});
+
+describe('POST /api/example-sentences', () => {
+  it('returns the generated sentences as JSON', async () => {
+    const response = await post(JSON.stringify({word: 'strong', collocations: ['coffee']}));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).sentences.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await post('word=strong');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe('INVALID_ARGUMENT');
+  });
+
+  it('rejects an input that does not match the schema', async () => {
+    const response = await post(JSON.stringify({word: 'strong', collocations: 'coffee'}));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.issues[0].path).toBe('collocations');
+  });
+});
+
+describe('GET /api/openapi.json', () => {
+  it('describes every route', async () => {
+    const document = await (await getOpenApi()).json();
+
+    expect(Object.keys(document.paths)).toEqual(['/api/collocations', '/api/collocations/stream', '/api/example-sentences']);
+    expect(document.components.schemas.AnalyzeCollocationsInput.required).toEqual(['word']);
+  });
+});
@@ -1,71 +1,87 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { RefreshCw, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { analyzeCollocations } from "@/ai/flows/analyze-collocations";
-// Assuming generateExampleSentences is used elsewhere or will be used later
-// import { generateExampleSentences } from "@/ai/flows/generate-example-sentences";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import type { AnalyzeCollocationsOutput } from "@/ai/flows/analyze-collocations";
+import { streamCollocations } from "@/lib/collocation-stream";
 import { useToast } from "@/hooks/use-toast"; // Correctly importing the hook
 import { Toaster } from "@/components/ui/toaster"; // For rendering the toasts
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CorpusUploadDialog } from "@/components/corpus-upload-dialog";
+import { ConcordanceView } from "@/components/concordance-view";
+import { PositionalFrequencyTable } from "@/components/positional-frequency-table";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, LANGUAGES, type Language } from "@/lib/corpus/language";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { WordSketch } from "@/components/word-sketch";
+import { ClustersView } from "@/components/clusters-view";
+import { KeywordsView } from "@/components/keywords-view";
+import { DispersionPlot } from "@/components/dispersion-plot";
+import { ExportMenu } from "@/components/export-menu";
+import { BatchPanel } from "@/components/batch-panel";
+import { CollocationNetworkView } from "@/components/collocation-network";
+import { CollocationTable } from "@/components/collocation-table";
+import { CompareView } from "@/components/compare-view";
+import { listCorpusNames } from "@/app/actions/corpus";
+import { SearchHistory } from "@/components/search-history";
+import { useSearchHistory } from "@/hooks/use-search-history";
+import type { HistoryEntry, SearchSettings } from "@/lib/history-db";
 
-// Custom hook for managing state in localStorage
-const useLocalStorage = (key: string, initialValue: string[]) => {
-  const [storedValue, setStoredValue] = useState<string[]>(initialValue);
-
-  // Effect to load initial value from localStorage on mount (client-side only)
-  useEffect(() => {
-    if (typeof window !== 'undefined') { // Ensure running on the client
-      try {
-        const item = window.localStorage.getItem(key);
-        if (item) {
-          setStoredValue(JSON.parse(item));
-        }
-      } catch (error) {
-        console.error("Error reading from localStorage:", error);
-        // Optionally reset to initialValue if parsing fails
-        // setStoredValue(initialValue);
-      }
-    }
-  }, [key]); // Only depends on the key
-
-  // Effect to save value to localStorage whenever it changes
-  useEffect(() => {
-    if (typeof window !== 'undefined') { // Ensure running on the client
-      try {
-        window.localStorage.setItem(key, JSON.stringify(storedValue));
-      } catch (error) {
-        console.error("Error writing to localStorage:", error);
-      }
-    }
-  }, [key, storedValue]); // Depends on key and value
-
-  return [storedValue, setStoredValue] as const;
-};
+// Select value meaning "ask the model instead of counting in a corpus"
+const NO_CORPUS = "__model__";
+// Select value meaning "do not check model suggestions against a corpus"
+const NO_VERIFY = "__none__";
+// Widest collocation window offered on each side of the node (L5..R5)
+const MAX_SPAN = 5;
 
 // The main page component
 export default function Home() {
   // --- State Definitions ---
   const [word, setWord] = useState("");
-  const [collocations, setCollocations] = useState<
-    { collocate: string; frequency: number; exampleSentences: string[] }[]
-  >([]);
-  const [history, setHistory] = useLocalStorage("searchHistory", []); // Using custom hook
-  const [isLoading, setIsLoading] = useState(false);
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const [collocations, setCollocations] = useState<AnalyzeCollocationsOutput["collocations"]>([]);
+  const history = useSearchHistory(); // Full past results, persisted in IndexedDB
+  const [isLoading, setIsLoading] = useState(false); // Also true while results are still streaming in
+  // Aborts the search in progress (cancel button, or a new search replacing it)
+  const abortRef = useRef<AbortController | null>(null);
+  const [corpora, setCorpora] = useState<string[]>([]);
+  const [selectedCorpus, setSelectedCorpus] = useState(NO_CORPUS);
+  // Corpus to check model suggestions against, flagging collocates it does not attest
+  const [verifyCorpus, setVerifyCorpus] = useState(NO_VERIFY);
+  // The word and settings of the last completed search (the inputs may have changed since)
+  const [lastSearch, setLastSearch] = useState<(SearchSettings & { word: string }) | null>(null);
+  // Treat make/makes/made/making as one word (always on for lemma_POS queries such as "make_V")
+  const [matchLemma, setMatchLemma] = useState(false);
+  const [span, setSpan] = useState({ left: 4, right: 4 });
+  const [fromCache, setFromCache] = useState(false);
+  const [corpusInfo, setCorpusInfo] = useState<AnalyzeCollocationsOutput["corpus"]>(undefined);
 
   // --- Get the toast function from the hook ---
   const { toast } = useToast(); // <<<< CORRECT: Call the hook here
 
+  // Load the names of the corpora available on the server
+  useEffect(() => {
+    listCorpusNames()
+      .then(setCorpora)
+      .catch((error) => console.error("Failed to list corpora:", error));
+  }, []);
+
   // Helper function to clear collocations
   const setEmptyCollocations = useCallback(() => {
     setCollocations([]);
+    setCorpusInfo(undefined);
   }, []);
 
   // --- Search Handler ---
-  const handleSearch = useCallback(async () => {
-    const trimmedWord = word.trim(); // Trim the word once
+  // `refresh` bypasses the server-side cache and asks the model again
+  const handleSearch = useCallback(async (refresh = false, searchWord = word) => {
+    const trimmedWord = searchWord.trim(); // Trim the word once
     if (!trimmedWord) {
       // Use the 'toast' function obtained from the hook
       toast({
@@ -75,11 +91,38 @@ export default function Home() {
       });
       return; // Stop execution
     }
+    if (span.left + span.right === 0) {
+      toast({
+        title: "Error",
+        description: "The collocation span must include at least one word on either side.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Only one search streams at a time
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     setIsLoading(true); // Start loading indicator
+    setEmptyCollocations(); // Streamed collocates are appended to an empty list
+    setFromCache(false);
+    const corpus = selectedCorpus === NO_CORPUS ? undefined : selectedCorpus;
+    const verifyAgainst = corpus || verifyCorpus === NO_VERIFY ? undefined : verifyCorpus;
+    // The concordance is read straight from the corpus, so it can show while the analysis runs
+    setLastSearch({ word: trimmedWord, corpus, span, matchLemma, language, verifyAgainst });
     try {
-      // Call the analysis function (ensure it exists and handles errors)
-      const analysisResult = await analyzeCollocations({ word: trimmedWord });
+      // Collocates render one by one as they arrive; the final result replaces them
+      const analysisResult = await streamCollocations(
+        { input: { word: trimmedWord, matchLemma, language, corpus, span }, refresh, verifyAgainst },
+        {
+          signal: controller.signal,
+          onCollocation: (collocation) => setCollocations((prev) => [...prev, collocation]),
+        }
+      );
+      setCorpusInfo(analysisResult?.corpus);
+      setFromCache(analysisResult?.fromCache ?? false);
 
       // Check if results are valid and not empty
       if (!analysisResult?.collocations || analysisResult.collocations.length === 0) {
@@ -89,21 +132,20 @@ export default function Home() {
           variant: "default",
         });
         setEmptyCollocations(); // Clear previous results
-        // Update history even if no collocations found? Optional. Currently only updated on success.
-        // setHistory((prevHistory) => {
-        //   const newHistory = [trimmedWord, ...prevHistory.filter((w) => w !== trimmedWord)].slice(0, 5);
-        //   return newHistory;
-        // });
+        // History is only updated on success; an empty result is not worth restoring.
         return; // Stop execution
       }
 
       // Set the found collocations
       setCollocations(analysisResult.collocations);
 
-      // Update search history (add new word, remove duplicates, limit size)
-      setHistory((prevHistory) => {
-        const newHistory = [trimmedWord, ...prevHistory.filter((w) => w !== trimmedWord)].slice(0, 5); // Limit to 5 items
-        return newHistory;
+      // Save the full result so it can be restored later without calling the model
+      history.add({
+        word: trimmedWord,
+        timestamp: Date.now(),
+        model: analysisResult.model ?? "corpus",
+        settings: { corpus, span, matchLemma, language, verifyAgainst },
+        result: analysisResult,
       });
 
       // Success notification
@@ -114,6 +156,10 @@ export default function Home() {
       });
 
     } catch (error: any) {
+      // Cancelled (or replaced by a newer search): keep whatever has streamed in so far
+      if (controller.signal.aborted) {
+        return;
+      }
       // Error handling during the API call or processing
       console.error("Failed to analyze collocations:", error); // Log the actual error
       toast({
@@ -124,17 +170,60 @@ export default function Home() {
       setEmptyCollocations(); // Clear results on error
 
     } finally {
-      // Ensure loading indicator is turned off regardless of success or failure
-      setIsLoading(false);
+      // Ensure loading indicator is turned off regardless of success or failure,
+      // unless a newer search has taken over
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
     }
   // <<< CORRECT: Add 'toast' to dependency array along with other dependencies >>>
-  }, [word, setEmptyCollocations, setHistory, toast]);
+  }, [word, language, matchLemma, selectedCorpus, verifyCorpus, span, setEmptyCollocations, history.add, toast]);
 
-  // Handler for clicking on a word in the history list
-  const handleHistoryClick = (historicWord: string) => {
-    setWord(historicWord);
-    // Optional: Automatically trigger search when history item is clicked
-    // handleSearch(); // Be mindful of triggering this if handleSearch doesn't depend on 'word' directly in its deps array (it does here, so it's okay but potentially triggers twice if state update is slow)
+  // Stops the search in progress, keeping the collocates received so far
+  const handleCancel = () => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    toast({
+      title: "Search cancelled",
+      description:
+        collocations.length > 0
+          ? `Showing the ${collocations.length} collocates received so far.`
+          : "No collocates had arrived yet.",
+    });
+  };
+
+  // Handler for clicking on an entry in the history list: restores its settings and results
+  const handleHistorySelect = (entry: HistoryEntry) => {
+    // Words imported from the old history have nothing to restore but the word
+    if (!entry.result) {
+      setWord(entry.word);
+      return;
+    }
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setWord(entry.word);
+    setLanguage(entry.settings.language ?? DEFAULT_LANGUAGE);
+    setSelectedCorpus(entry.settings.corpus ?? NO_CORPUS);
+    setVerifyCorpus(entry.settings.verifyAgainst ?? NO_VERIFY);
+    setSpan(entry.settings.span);
+    setMatchLemma(entry.settings.matchLemma);
+    setLastSearch({ word: entry.word, ...entry.settings });
+    setCollocations(entry.result.collocations);
+    setCorpusInfo(entry.result.corpus);
+    setFromCache(false);
+  };
+
+  // Settings for the batch and compare panels, as the next search would use them
+  const searchSettings: SearchSettings = {
+    corpus: selectedCorpus === NO_CORPUS ? undefined : selectedCorpus,
+    span,
+    matchLemma,
+    language,
+    verifyAgainst: selectedCorpus !== NO_CORPUS || verifyCorpus === NO_VERIFY ? undefined : verifyCorpus,
   };
 
   // --- JSX Rendering ---
@@ -147,56 +236,221 @@ export default function Home() {
 
       {/* Input and Search Button Area */}
       <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full max-w-lg mb-8">
+        {/* Corpus searches always use the language the corpus was uploaded in */}
+        <Select
+          value={language}
+          onValueChange={(value) => setLanguage(value as Language)}
+          disabled={selectedCorpus !== NO_CORPUS}
+        >
+          <SelectTrigger className="sm:w-36" aria-label="Language">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LANGUAGES.map((code) => (
+              <SelectItem key={code} value={code}>
+                {LANGUAGE_NAMES[code]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Input
           type="text"
-          placeholder="Enter a word (e.g., 'strong')"
+          placeholder="Enter a word (e.g., 'strong' or 'make_V')"
           value={word}
           onChange={(e) => setWord(e.target.value)}
           className="flex-grow" // Takes available space
           onKeyDown={(e) => e.key === 'Enter' && handleSearch()} // Allow Enter key to search
         />
-        <Button onClick={handleSearch} disabled={isLoading} className="w-full sm:w-auto">
+        <Button onClick={() => handleSearch()} disabled={isLoading} className="w-full sm:w-auto">
           {isLoading ? "Analyzing..." : "Find Collocations"}
         </Button>
+        {isLoading && (
+          <Button variant="outline" onClick={handleCancel} className="w-full sm:w-auto" title="Stop this search">
+            <X />
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {/* Corpus selection and upload */}
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full max-w-lg mb-8 -mt-6">
+        <Select value={selectedCorpus} onValueChange={setSelectedCorpus}>
+          <SelectTrigger className="flex-grow" aria-label="Corpus">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CORPUS}>AI model (no corpus)</SelectItem>
+            {corpora.map((name) => (
+              <SelectItem key={name} value={name}>
+                Corpus: {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <CorpusUploadDialog
+          onUploaded={(summary) => {
+            setCorpora((prev) => Array.from(new Set([...prev, summary.name])).sort());
+            setSelectedCorpus(summary.name);
+          }}
+        />
       </div>
 
+      {/* Checking model suggestions against a corpus (model searches only) */}
+      {selectedCorpus === NO_CORPUS && corpora.length > 0 && (
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full max-w-lg mb-8 -mt-6">
+          <Label htmlFor="verify-corpus" className="whitespace-nowrap">
+            Verify suggestions in
+          </Label>
+          <Select value={verifyCorpus} onValueChange={setVerifyCorpus}>
+            <SelectTrigger id="verify-corpus" className="flex-grow">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_VERIFY}>Don&apos;t verify</SelectItem>
+              {corpora.map((name) => (
+                <SelectItem key={name} value={name}>
+                  Corpus: {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Collocation span (e.g. 4L-4R) and lemma matching */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 w-full max-w-lg mb-8">
+        <div className="flex items-center gap-2 sm:col-span-2">
+          <Switch id="match-lemma" checked={matchLemma} onCheckedChange={setMatchLemma} />
+          <Label htmlFor="match-lemma">Match all forms of the word (lemma)</Label>
+        </div>
+        <div className="grid gap-3">
+          <Label htmlFor="span-left">Left span: {span.left}L</Label>
+          <Slider
+            id="span-left"
+            min={0}
+            max={MAX_SPAN}
+            step={1}
+            value={[span.left]}
+            onValueChange={([left]) => setSpan((prev) => ({ ...prev, left }))}
+          />
+        </div>
+        <div className="grid gap-3">
+          <Label htmlFor="span-right">Right span: {span.right}R</Label>
+          <Slider
+            id="span-right"
+            min={0}
+            max={MAX_SPAN}
+            step={1}
+            value={[span.right]}
+            onValueChange={([right]) => setSpan((prev) => ({ ...prev, right }))}
+          />
+        </div>
+      </div>
+
+      {/* Concordance Area (corpus searches only) */}
+      {lastSearch?.corpus && (
+        <div className="w-full max-w-4xl mb-8">
+          <ConcordanceView corpus={lastSearch.corpus} word={lastSearch.word} matchLemma={lastSearch.matchLemma} />
+        </div>
+      )}
+
       {/* Results Area */}
       <div className="w-full max-w-4xl mb-8">
-        {/* Show results only if not loading and collocations exist */}
-        {!isLoading && collocations.length > 0 && (
+        {/* Show results as soon as the first collocate has arrived */}
+        {collocations.length > 0 && (
           <Card className="shadow-lg border border-border">
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
               <CardTitle className="text-xl md:text-2xl">
-                Collocations for "{/* Display the searched word safely */}
-                {collocations.length > 0 ? word : ''}":
+                Collocations for "{lastSearch?.word}"
+                {lastSearch?.corpus ? ` in ${lastSearch.corpus}` : ""}:
               </CardTitle>
+              <div className="flex items-center gap-2">
+                {isLoading && <Badge variant="outline">Receiving results…</Badge>}
+                {fromCache && (
+                  <>
+                    <Badge variant="secondary">Served from cache</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSearch(true, lastSearch?.word)}
+                      title="Ask the model again and replace the cached result"
+                    >
+                      <RefreshCw />
+                      Refresh
+                    </Button>
+                  </>
+                )}
+                <ExportMenu
+                  resultSets={[{ node: lastSearch?.word ?? "", corpus: lastSearch?.corpus, collocations }]}
+                  filename={`collocations-${lastSearch?.word ?? "results"}`}
+                />
+              </div>
             </CardHeader>
             <CardContent className="pb-4">
-              {/* Consider ScrollArea if results can be very long */}
-              {/* <ScrollArea className="h-[400px]"> */}
-              <ul className="space-y-4">
-                {collocations.map((collocation, index) => (
-                  <li key={index} className="border-b border-border pb-3 last:border-b-0">
-                    <p className="font-semibold text-lg text-primary">
-                      {collocation.collocate}
-                      <span className="text-sm font-normal text-muted-foreground ml-2">
-                        (Frequency: {collocation.frequency})
-                      </span>
-                    </p>
-                    {/* Render example sentences if they exist */}
-                    {collocation.exampleSentences && collocation.exampleSentences.length > 0 && (
-                       <ul className="list-disc list-inside pl-2 mt-1 space-y-1">
-                          {collocation.exampleSentences.map((sentence, sentenceIndex) => (
-                           <li key={sentenceIndex} className="text-sm text-muted-foreground">
-                             {sentence}
-                            </li>
-                          ))}
-                        </ul>
-                    )}
-                  </li>
-                ))}
-              </ul>
-              {/* </ScrollArea> */}
+              <Tabs defaultValue="list">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="list">Collocates</TabsTrigger>
+                  <TabsTrigger value="sketch">Word sketch</TabsTrigger>
+                  <TabsTrigger value="network">Network</TabsTrigger>
+                  {lastSearch?.corpus && <TabsTrigger value="clusters">Clusters</TabsTrigger>}
+                  {lastSearch?.corpus && <TabsTrigger value="dispersion">Dispersion</TabsTrigger>}
+                </TabsList>
+                <TabsContent value="list">
+                  <CollocationTable
+                    search={lastSearch}
+                    language={corpusInfo?.language ?? lastSearch?.language}
+                    collocations={collocations}
+                  />
+                  {/* Positional breakdown (corpus results only) */}
+                  {corpusInfo && (
+                    <div className="mt-6">
+                      <h3 className="font-semibold text-lg mb-2">
+                        Positional frequencies ({corpusInfo.span.left}L-{corpusInfo.span.right}R)
+                      </h3>
+                      <PositionalFrequencyTable
+                        node={lastSearch?.word ?? ""}
+                        collocations={collocations}
+                        span={corpusInfo.span}
+                      />
+                    </div>
+                  )}
+                </TabsContent>
+                {/* Collocates grouped by grammatical relation */}
+                <TabsContent value="sketch">
+                  <WordSketch node={lastSearch?.word ?? ""} collocations={collocations} />
+                </TabsContent>
+                {/* Collocates as a graph that can be expanded collocate by collocate */}
+                <TabsContent value="network">
+                  {lastSearch && (
+                    <CollocationNetworkView
+                      word={lastSearch.word}
+                      collocations={collocations}
+                      settings={lastSearch}
+                      streaming={isLoading}
+                    />
+                  )}
+                </TabsContent>
+                {/* Recurrent clusters containing the node (corpus searches only) */}
+                {lastSearch?.corpus && (
+                  <TabsContent value="clusters">
+                    <ClustersView
+                      corpus={lastSearch.corpus}
+                      word={lastSearch.word}
+                      matchLemma={lastSearch.matchLemma}
+                    />
+                  </TabsContent>
+                )}
+                {/* Where the node occurs in each text (corpus searches only) */}
+                {lastSearch?.corpus && (
+                  <TabsContent value="dispersion">
+                    <DispersionPlot
+                      corpus={lastSearch.corpus}
+                      word={lastSearch.word}
+                      matchLemma={lastSearch.matchLemma}
+                    />
+                  </TabsContent>
+                )}
+              </Tabs>
             </CardContent>
           </Card>
         )}
@@ -206,34 +460,31 @@ export default function Home() {
         {/* {!isLoading && collocations.length === 0 && word && <p>No results found.</p>} */}
       </div>
 
+      {/* Batch Area: the word list is analyzed with the settings above */}
+      <div className="w-full max-w-4xl mb-8">
+        <BatchPanel settings={searchSettings} />
+      </div>
+
+      {/* Compare Area: two near-synonyms, analyzed with the settings above */}
+      <div className="w-full max-w-4xl mb-8">
+        <CompareView settings={searchSettings} />
+      </div>
+
+      {/* Keyness Area (needs a study and a reference corpus) */}
+      {corpora.length >= 2 && (
+        <div className="w-full max-w-4xl mb-8">
+          <KeywordsView corpora={corpora} />
+        </div>
+      )}
+
       {/* Search History Area */}
       <div className="w-full max-w-lg">
-        <Card className="shadow-md border border-border">
-          <CardHeader>
-            <CardTitle className="text-lg md:text-xl">Search History</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-40"> {/* Fixed height for scroll */}
-              {history.length > 0 ? (
-                <div className="flex flex-col space-y-2">
-                  {history.map((historicWord, index) => (
-                    <Button
-                      key={index}
-                      variant="ghost" // Use ghost or outline for less emphasis
-                      className="justify-start text-left h-auto py-2" // Adjust padding/height
-                      onClick={() => handleHistoryClick(historicWord)}
-                      title={`Search for "${historicWord}"`} // Tooltip
-                    >
-                      {historicWord}
-                    </Button>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-center text-muted-foreground">No search history yet.</p>
-              )}
-            </ScrollArea>
-          </CardContent>
-        </Card>
+        <SearchHistory
+          entries={history.entries}
+          onSelect={handleHistorySelect}
+          onDelete={history.remove}
+          onClear={history.clear}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,68 @@
+"use client";
+
+import React from "react";
+import type { SentenceAnnotation } from "@/ai/flows/analyze-collocations";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface Mark {
+  start: number;
+  end: number;
+  role: "node" | "collocate";
+}
+
+const MARK_STYLES: Record<Mark["role"], string> = {
+  node: "font-semibold text-foreground",
+  collocate: "font-semibold text-primary",
+};
+
+// Where the collocate is relative to the node, as a WordSmith-style position (L2, R1)
+const describe = (annotation: SentenceAnnotation, node: string, collocate: string) => {
+  const { distance } = annotation;
+  if (distance === null) {
+    return annotation.node.length > 0 ? `"${node}" (the collocate was not found)` : `"${collocate}" (the node was not found)`;
+  }
+  const words = Math.abs(distance);
+  const position = `${distance < 0 ? "L" : "R"}${words}`;
+  return `${position}: "${collocate}" is ${words} ${words === 1 ? "word" : "words"} ${distance < 0 ? "before" : "after"} "${node}"`;
+};
+
+interface AnnotatedSentenceProps {
+  text: string;
+  // Absent for results analyzed before sentences were annotated; the sentence is shown plain
+  annotation?: SentenceAnnotation;
+}
+
+// An example sentence with the node in bold and the collocate coloured; hovering either shows how far apart they are
+export function AnnotatedSentence({ text, annotation }: AnnotatedSentenceProps) {
+  if (!annotation || annotation.node.length + annotation.collocate.length === 0) {
+    return <>{text}</>;
+  }
+  const marks: Mark[] = [
+    ...annotation.node.map((span) => ({ ...span, role: "node" as const })),
+    ...annotation.collocate.map((span) => ({ ...span, role: "collocate" as const })),
+  ].sort((a, b) => a.start - b.start);
+  const wordsOf = (role: Mark["role"]) =>
+    marks
+      .filter((mark) => mark.role === role)
+      .map((mark) => text.slice(mark.start, mark.end))
+      .join(" ");
+  const description = describe(annotation, wordsOf("node"), wordsOf("collocate"));
+
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  marks.forEach((mark, index) => {
+    parts.push(text.slice(offset, mark.start));
+    parts.push(
+      <Tooltip key={index}>
+        <TooltipTrigger asChild>
+          <span className={`${MARK_STYLES[mark.role]} cursor-help`}>{text.slice(mark.start, mark.end)}</span>
+        </TooltipTrigger>
+        <TooltipContent>{description}</TooltipContent>
+      </Tooltip>
+    );
+    offset = mark.end;
+  });
+  parts.push(text.slice(offset));
+
+  return <TooltipProvider delayDuration={200}>{parts}</TooltipProvider>;
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Pause, Play, RotateCcw, X } from "lucide-react";
+import type { AnalyzeCollocationsOutput } from "@/ai/flows/analyze-collocations";
+import { ExportMenu } from "@/components/export-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { runBatch } from "@/lib/batch";
+import { fetchCollocations, isTransientError } from "@/lib/collocation-api";
+import type { CollocationResultSet } from "@/lib/collocation-export";
+import { POS_LABELS } from "@/lib/corpus/pos";
+import { RELATION_LABELS } from "@/lib/corpus/relations";
+import type { SearchSettings } from "@/lib/history-db";
+
+// Words analyzed side by side; more mostly queues up at the model's rate limit
+const BATCH_CONCURRENCY = 3;
+const BATCH_RETRIES = 2;
+// Keeps a pasted vocabulary list to a size the page can comfortably show
+const MAX_BATCH_WORDS = 500;
+// Rows rendered in the combined table; the export always has all of them
+const MAX_TABLE_ROWS = 1000;
+
+type ItemStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+interface BatchItem {
+  word: string;
+  status: ItemStatus;
+  attempts: number;
+  result?: AnalyzeCollocationsOutput;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<ItemStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_VARIANTS: Record<ItemStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "default",
+  done: "secondary",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+// One word or lemma_POS query per line (or comma-separated), without repeats
+const parseWords = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\n,]/)
+        .map((word) => word.trim())
+        .filter(Boolean)
+    )
+  );
+
+interface BatchPanelProps {
+  // The search settings every word in the batch is analyzed with
+  settings: SearchSettings;
+}
+
+// Analyzes a pasted word list a few words at a time, with pause/resume, cancel and one combined table
+export function BatchPanel({ settings }: BatchPanelProps) {
+  const [text, setText] = useState("");
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [phase, setPhase] = useState<"idle" | "running" | "pausing" | "paused">("idle");
+  // Settings of the current batch, so resuming does not pick up later changes on the page
+  const [batchSettings, setBatchSettings] = useState<SearchSettings>(settings);
+  // Aborting `run` stops new words from starting; aborting `requests` also drops the running ones
+  const runRef = useRef<{ run: AbortController; requests: AbortController } | null>(null);
+  const { toast } = useToast();
+
+  const update = (word: string, patch: (item: BatchItem) => Partial<BatchItem>) =>
+    setItems((prev) => prev.map((item) => (item.word === word ? { ...item, ...patch(item) } : item)));
+
+  const run = async (words: string[], runSettings: SearchSettings) => {
+    const controllers = { run: new AbortController(), requests: new AbortController() };
+    runRef.current = controllers;
+    setPhase("running");
+    const { verifyAgainst, ...input } = runSettings;
+    const outcomes = await runBatch(
+      words,
+      (word) => {
+        update(word, (item) => ({ status: "running", attempts: item.attempts + 1 }));
+        return fetchCollocations({ ...input, word }, { verifyAgainst, signal: controllers.requests.signal });
+      },
+      {
+        concurrency: BATCH_CONCURRENCY,
+        retries: BATCH_RETRIES,
+        // A word the server rejected (e.g. too long) or a missing corpus fails the same way again
+        isRetryable: isTransientError,
+        signal: controllers.run.signal,
+        onSettled: (word, outcome) => {
+          if (outcome.ok) {
+            update(word, () => ({ status: "done", result: outcome.value, error: undefined }));
+          } else if (controllers.requests.signal.aborted) {
+            update(word, () => ({ status: "cancelled" }));
+          } else if (controllers.run.signal.aborted) {
+            // Paused before its retries were used up: try again on resume
+            update(word, () => ({ status: "queued" }));
+          } else {
+            update(word, () => ({ status: "failed", error: outcome.error.message }));
+          }
+        },
+      }
+    );
+    if (runRef.current !== controllers) {
+      return;
+    }
+    runRef.current = null;
+    if (controllers.requests.signal.aborted) {
+      setPhase("idle");
+    } else if (controllers.run.signal.aborted) {
+      setPhase("paused");
+    } else {
+      setPhase("idle");
+      const failed = outcomes.filter((outcome) => !outcome.ok).length;
+      toast({
+        title: "Batch finished",
+        description: `${words.length - failed} of ${words.length} words analyzed${failed ? `, ${failed} failed` : ""}.`,
+        variant: failed ? "destructive" : "default",
+      });
+    }
+  };
+
+  const handleStart = () => {
+    const words = parseWords(text);
+    if (words.length === 0) {
+      toast({ title: "Error", description: "Please enter at least one word.", variant: "destructive" });
+      return;
+    }
+    if (words.length > MAX_BATCH_WORDS) {
+      toast({
+        title: "Error",
+        description: `A batch can have at most ${MAX_BATCH_WORDS} words; this list has ${words.length}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (settings.span.left + settings.span.right === 0) {
+      toast({
+        title: "Error",
+        description: "The collocation span must include at least one word on either side.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setItems(words.map((word) => ({ word, status: "queued", attempts: 0 })));
+    setBatchSettings(settings);
+    run(words, settings);
+  };
+
+  // Lets the running words finish, then stops
+  const handlePause = () => {
+    runRef.current?.run.abort();
+    setPhase("pausing");
+  };
+
+  const handleResume = () => {
+    run(items.filter((item) => item.status === "queued").map((item) => item.word), batchSettings);
+  };
+
+  const handleCancel = () => {
+    runRef.current?.run.abort();
+    runRef.current?.requests.abort();
+    runRef.current = null;
+    setItems((prev) => prev.map((item) => (item.status === "queued" ? { ...item, status: "cancelled" } : item)));
+    setPhase("idle");
+  };
+
+  // Runs the failed and cancelled words again with the batch's settings
+  const handleRetry = () => {
+    const words = items.filter((item) => item.status === "failed" || item.status === "cancelled").map((item) => item.word);
+    setItems((prev) =>
+      prev.map((item) => (words.includes(item.word) ? { ...item, status: "queued", attempts: 0, error: undefined } : item))
+    );
+    run(words, batchSettings);
+  };
+
+  const finished = items.filter((item) => item.status === "done" || item.status === "failed").length;
+  const retryable = items.some((item) => item.status === "failed" || item.status === "cancelled");
+  const resultSets: CollocationResultSet[] = items
+    .filter((item) => item.result)
+    .map((item) => ({ node: item.word, corpus: item.result!.corpus?.name, collocations: item.result!.collocations }));
+  const rows = resultSets.flatMap((set) => set.collocations.map((collocation) => ({ node: set.node, collocation })));
+
+  return (
+    <Card className="shadow-md border border-border">
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl">Batch</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          placeholder={"One word per line, e.g.\nstrong\nmake_V\ndecision"}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={5}
+          disabled={phase !== "idle"}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          {phase === "idle" && (
+            <Button onClick={handleStart}>
+              <Play />
+              Analyze {parseWords(text).length || ""} words
+            </Button>
+          )}
+          {(phase === "running" || phase === "pausing") && (
+            <Button variant="outline" onClick={handlePause} disabled={phase === "pausing"} title="Finish the running words, then stop">
+              <Pause />
+              {phase === "pausing" ? "Pausing..." : "Pause"}
+            </Button>
+          )}
+          {phase === "paused" && (
+            <Button onClick={handleResume}>
+              <Play />
+              Resume
+            </Button>
+          )}
+          {phase !== "idle" && (
+            <Button variant="outline" onClick={handleCancel} title="Stop the batch, including the running words">
+              <X />
+              Cancel
+            </Button>
+          )}
+          {phase === "idle" && retryable && (
+            <Button variant="outline" onClick={handleRetry}>
+              <RotateCcw />
+              Retry failed
+            </Button>
+          )}
+          <div className="ml-auto">
+            <ExportMenu resultSets={resultSets} filename="collocations-batch" />
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <>
+            <div className="space-y-1">
+              <Progress value={(finished / items.length) * 100} />
+              <p className="text-xs text-muted-foreground">
+                {finished} of {items.length} words finished
+              </p>
+            </div>
+
+            {/* Per-word status */}
+            <ScrollArea className="h-40 rounded-md border border-border">
+              <ul className="divide-y divide-border text-sm">
+                {items.map((item) => (
+                  <li key={item.word} className="flex items-center gap-2 px-3 py-1.5">
+                    <span className="font-medium">{item.word}</span>
+                    <Badge variant={STATUS_VARIANTS[item.status]} title={item.error}>
+                      {STATUS_LABELS[item.status]}
+                      {item.status === "running" && item.attempts > 1 && ` (attempt ${item.attempts})`}
+                    </Badge>
+                    <span className="ml-auto text-xs text-muted-foreground truncate max-w-[60%]">
+                      {item.status === "done" && `${item.result!.collocations.length} collocates`}
+                      {item.status === "failed" && item.error}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {/* Combined results */}
+            {rows.length > 0 && (
+              <ScrollArea className="h-96 rounded-md border border-border">
+                <Table className="text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Word</TableHead>
+                      <TableHead>Collocate</TableHead>
+                      <TableHead>POS</TableHead>
+                      <TableHead>Relation</TableHead>
+                      <TableHead className="text-right">Frequency</TableHead>
+                      <TableHead className="text-right">logDice</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, MAX_TABLE_ROWS).map(({ node, collocation }, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{node}</TableCell>
+                        <TableCell>{collocation.collocate}</TableCell>
+                        <TableCell>{POS_LABELS[collocation.pos]}</TableCell>
+                        <TableCell>{RELATION_LABELS[collocation.relation]}</TableCell>
+                        <TableCell className="text-right">{collocation.frequency}</TableCell>
+                        <TableCell className="text-right">{collocation.statistics?.logDice.toFixed(2) ?? "–"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+            {rows.length > MAX_TABLE_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {MAX_TABLE_ROWS} of {rows.length} rows. The export includes all of them.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
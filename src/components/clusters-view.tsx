@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getClusters } from "@/app/actions/corpus";
+import { MAX_CLUSTER_LENGTH, MIN_CLUSTER_LENGTH, type Cluster } from "@/lib/corpus/clusters";
+
+interface ClustersViewProps {
+  corpus: string;
+  word: string;
+  matchLemma?: boolean;
+}
+
+// Recurrent 2-6 word clusters containing the node, with frequency and range across texts
+export function ClustersView({ corpus, word, matchLemma = false }: ClustersViewProps) {
+  const [minLength, setMinLength] = useState(3);
+  const [maxLength, setMaxLength] = useState(4);
+  const [minFrequency, setMinFrequency] = useState(2);
+  const [clusters, setClusters] = useState<Cluster[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getClusters({
+      corpus,
+      word,
+      matchLemma,
+      minLength,
+      maxLength,
+      minFrequency,
+    })
+      .then((result) => {
+        if (!cancelled) setClusters(result);
+      })
+      .catch((err: any) => {
+        console.error("Failed to find clusters:", err);
+        if (!cancelled) setError(err.message || "Failed to find clusters.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [corpus, word, matchLemma, minLength, maxLength, minFrequency]);
+
+  return (
+    <div>
+      {/* Cluster length and minimum frequency controls */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-4">
+        <div className="grid gap-3">
+          <Label htmlFor="cluster-min-length">Shortest: {minLength} words</Label>
+          <Slider
+            id="cluster-min-length"
+            min={MIN_CLUSTER_LENGTH}
+            max={MAX_CLUSTER_LENGTH}
+            step={1}
+            value={[minLength]}
+            onValueChange={([length]) => {
+              setMinLength(length);
+              setMaxLength((max) => Math.max(max, length));
+            }}
+          />
+        </div>
+        <div className="grid gap-3">
+          <Label htmlFor="cluster-max-length">Longest: {maxLength} words</Label>
+          <Slider
+            id="cluster-max-length"
+            min={MIN_CLUSTER_LENGTH}
+            max={MAX_CLUSTER_LENGTH}
+            step={1}
+            value={[maxLength]}
+            onValueChange={([length]) => {
+              setMaxLength(length);
+              setMinLength((min) => Math.min(min, length));
+            }}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="cluster-min-frequency">Minimum frequency</Label>
+          <Input
+            id="cluster-min-frequency"
+            type="number"
+            min={1}
+            value={minFrequency}
+            onChange={(e) => setMinFrequency(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-center text-destructive">{error}</p>}
+      {!error && clusters && clusters.length === 0 && (
+        <p className="text-center text-muted-foreground">No clusters reach the minimum frequency.</p>
+      )}
+      {!error && clusters && clusters.length > 0 && (
+        <Table className="text-sm">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Cluster</TableHead>
+              <TableHead className="text-right">Length</TableHead>
+              <TableHead className="text-right">Frequency</TableHead>
+              <TableHead className="text-right">Texts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className={isLoading ? "opacity-50" : undefined}>
+            {clusters.map((cluster) => (
+              <TableRow key={cluster.cluster}>
+                <TableCell className="py-1 px-2">{cluster.cluster}</TableCell>
+                <TableCell className="py-1 px-2 text-right font-mono">{cluster.length}</TableCell>
+                <TableCell className="py-1 px-2 text-right font-mono">{cluster.frequency}</TableCell>
+                <TableCell className="py-1 px-2 text-right font-mono">{cluster.range}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {isLoading && !clusters && <p className="text-center text-muted-foreground">Finding clusters...</p>}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Download, Maximize, ZoomIn, ZoomOut } from "lucide-react";
+import type { Collocation } from "@/ai/flows/analyze-collocations";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { fetchCollocations } from "@/lib/collocation-api";
+import { createNetwork, expandNetwork, type CollocationNetwork, type NetworkNode } from "@/lib/collocation-network";
+import { downloadFile, serializeSvg, svgToPng } from "@/lib/export";
+import type { SearchSettings } from "@/lib/history-db";
+
+// Size of the drawing in SVG units, centred on the searched word
+const WIDTH = 800;
+const HEIGHT = 500;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+// Pointer movement (in pixels) after which a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 3;
+
+// Circle radius and colour by distance from the searched word
+const NODE_RADIUS = [20, 12, 9];
+const NODE_COLORS = ["hsl(var(--primary))", "hsl(var(--chart-2))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"];
+
+const radiusOf = (node: NetworkNode) => NODE_RADIUS[Math.min(node.depth, NODE_RADIUS.length - 1)];
+const colorOf = (node: NetworkNode) => NODE_COLORS[Math.min(node.depth, NODE_COLORS.length - 1)];
+
+interface CollocationNetworkViewProps {
+  word: string;
+  collocations: Collocation[];
+  // Settings of the search; expanding a collocate analyzes it the same way
+  settings: SearchSettings;
+  // Whether collocates are still streaming in; the network is drawn once they all have
+  streaming: boolean;
+}
+
+// Force-directed network of the node and its collocates; click a collocate to add its own collocates
+export function CollocationNetworkView({ word, collocations, settings, streaming }: CollocationNetworkViewProps) {
+  // Laying out the network on every streamed collocate would be slow and lose expansions
+  const complete = streaming ? null : collocations;
+  const [network, setNetwork] = useState<CollocationNetwork>(() => createNetwork(word, complete ?? []));
+  const [expanding, setExpanding] = useState<Set<string>>(new Set());
+  const [view, setView] = useState({ x: 0, y: 0, zoom: 1 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  // The pressed node is noted on pointer down: once the pointer is captured, events target the svg
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean; node?: string } | null>(
+    null
+  );
+  // The current search, so that collocates found for an earlier one are dropped
+  const searchRef = useRef(settings);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    searchRef.current = settings;
+  }, [settings]);
+
+  // A new search starts a new network, which shows its collocates once they are all in
+  useEffect(() => {
+    setNetwork(createNetwork(word, complete ?? []));
+    setExpanding(new Set());
+  }, [word, complete]);
+
+  // Wheel zoom around the pointer; registered natively because React's wheel listener is passive
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      // Pointer position in SVG units, relative to the centre
+      const px = ((event.clientX - rect.left) / rect.width - 0.5) * WIDTH;
+      const py = ((event.clientY - rect.top) / rect.height - 0.5) * HEIGHT;
+      setView((prev) => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * (event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)));
+        const ratio = zoom / prev.zoom;
+        return { zoom, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+      });
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const zoomBy = (factor: number) =>
+    setView((prev) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+      return { zoom, x: prev.x * (zoom / prev.zoom), y: prev.y * (zoom / prev.zoom) };
+    });
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const node = (event.target as Element).closest("[data-node]")?.getAttribute("data-node") ?? undefined;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { startX: event.clientX, startY: event.clientY, x: view.x, y: view.y, moved: false, node };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const scale = WIDTH / event.currentTarget.getBoundingClientRect().width;
+    setView((prev) => ({ ...prev, x: drag.x + dx * scale, y: drag.y + dy * scale }));
+  };
+
+  // Releasing without dragging over a collocate expands it
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    const node = network.nodes.find((candidate) => candidate.id === drag.node);
+    if (node) handleExpand(node);
+  };
+
+  const handleExpand = async (node: NetworkNode) => {
+    if (node.expanded || expanding.has(node.id)) return;
+    setExpanding((prev) => new Set(prev).add(node.id));
+    const { verifyAgainst, ...input } = settings;
+    const isCurrent = () => searchRef.current === settings;
+    try {
+      // All forms of the collocate count, whatever form it was found in
+      const result = await fetchCollocations({ ...input, word: node.label, matchLemma: true });
+      if (!isCurrent()) return;
+      // The network may have been rebuilt without the node while the request was out
+      setNetwork((prev) =>
+        prev.nodes.some((candidate) => candidate.id === node.id)
+          ? expandNetwork(prev, node.id, result.collocations)
+          : prev
+      );
+    } catch (error: any) {
+      if (!isCurrent()) return;
+      console.error("Failed to expand the network:", error);
+      toast({
+        title: "Error",
+        description: error.message || `Failed to find the collocates of "${node.label}".`,
+        variant: "destructive",
+      });
+    } finally {
+      if (isCurrent()) {
+        setExpanding((prev) => {
+          const next = new Set(prev);
+          next.delete(node.id);
+          return next;
+        });
+      }
+    }
+  };
+
+  const handleExport = async (format: "svg" | "png") => {
+    if (!svgRef.current) return;
+    const svg = serializeSvg(svgRef.current);
+    const filename = `network-${word}.${format}`;
+    if (format === "svg") {
+      downloadFile(filename, svg, "image/svg+xml");
+      return;
+    }
+    try {
+      downloadFile(filename, await svgToPng(svg, getComputedStyle(document.body).backgroundColor), "image/png");
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const positions = new Map(network.nodes.map((node) => [node.id, node]));
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-2">
+        <p className="text-sm text-muted-foreground mr-auto">
+          Shorter links are stronger associations. Click a collocate to add its own collocates; drag to pan, scroll to
+          zoom.
+        </p>
+        <Button variant="ghost" size="icon" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">
+          <ZoomIn />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">
+          <ZoomOut />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setView({ x: 0, y: 0, zoom: 1 })} title="Reset the view">
+          <Maximize />
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Download />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => handleExport("png")}>PNG image (.png)</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport("svg")}>SVG image (.svg)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`${-WIDTH / 2} ${-HEIGHT / 2} ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto rounded-md border border-border touch-none select-none cursor-grab active:cursor-grabbing"
+        role="img"
+        aria-label={`Collocation network of "${word}"`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => (dragRef.current = null)}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+          {network.links.map((link) => {
+            const source = positions.get(link.source)!;
+            const target = positions.get(link.target)!;
+            return (
+              <line
+                key={`${link.source}\n${link.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke="hsl(var(--muted-foreground))"
+                strokeOpacity={0.5}
+                strokeWidth={0.5 + link.strength * 2.5}
+              />
+            );
+          })}
+          {network.nodes.map((node) => (
+            <g
+              key={node.id}
+              data-node={node.id}
+              transform={`translate(${node.x} ${node.y})`}
+              className={node.depth > 0 && !node.expanded ? "cursor-pointer" : undefined}
+            >
+              <title>
+                {node.expanded || node.depth === 0 ? node.label : `Show the collocates of "${node.label}"`}
+              </title>
+              <circle
+                r={radiusOf(node)}
+                fill={colorOf(node)}
+                stroke="hsl(var(--background))"
+                strokeWidth={node.expanded ? 3 : 1.5}
+                className={expanding.has(node.id) ? "animate-pulse" : undefined}
+              />
+              <text
+                y={radiusOf(node) + 12}
+                textAnchor="middle"
+                fill="hsl(var(--foreground))"
+                fontSize={node.depth === 0 ? 14 : 11}
+                fontWeight={node.depth === 0 ? 600 : 400}
+              >
+                {node.label}
+              </text>
+            </g>
+          ))}
+        </g>
+      </svg>
+    </div>
+  );
+}
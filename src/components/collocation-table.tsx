@@ -0,0 +1,523 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Columns3, Plus, RefreshCw } from "lucide-react";
+import type { Collocation, SentenceAnnotation } from "@/ai/flows/analyze-collocations";
+import { generateExampleSentences } from "@/ai/flows/generate-example-sentences";
+import { AnnotatedSentence } from "@/components/annotated-sentence";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useToast } from "@/hooks/use-toast";
+import type { Language } from "@/lib/corpus/language";
+import { formatLemmaPos, parseNodeQuery, POS_LABELS } from "@/lib/corpus/pos";
+import { RELATION_LABELS } from "@/lib/corpus/relations";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, DIFFICULTY_LABELS, type Difficulty } from "@/lib/difficulty";
+import { sentencesToExclude } from "@/lib/example-sentences";
+import type { SearchSettings } from "@/lib/history-db";
+
+// A collocation with its rank in the analysis, which identifies it however the table is sorted
+interface Row {
+  rank: number;
+  // lemma_POS, which identifies the collocate within its search
+  key: string;
+  collocation: Collocation;
+}
+
+type ColumnKey =
+  | "rank"
+  | "collocate"
+  | "lemma"
+  | "pos"
+  | "relation"
+  | "frequency"
+  | "mi"
+  | "mi3"
+  | "tScore"
+  | "logLikelihood"
+  | "dice"
+  | "logDice"
+  | "range"
+  | "juillandD";
+
+interface Column {
+  key: ColumnKey;
+  label: string;
+  numeric: boolean;
+  // Only corpus results have association measures and dispersion
+  corpusOnly?: boolean;
+  value: (row: Row) => string | number | null | undefined;
+  format?: (value: number) => string;
+}
+
+const fixed = (digits: number) => (value: number) => value.toFixed(digits);
+
+const COLUMNS: Column[] = [
+  { key: "rank", label: "#", numeric: true, value: (row) => row.rank },
+  { key: "collocate", label: "Collocate", numeric: false, value: (row) => row.collocation.collocate },
+  { key: "lemma", label: "Lemma", numeric: false, value: (row) => row.collocation.lemma },
+  { key: "pos", label: "POS", numeric: false, value: (row) => POS_LABELS[row.collocation.pos] },
+  { key: "relation", label: "Relation", numeric: false, value: (row) => RELATION_LABELS[row.collocation.relation] },
+  { key: "frequency", label: "Frequency", numeric: true, value: (row) => row.collocation.frequency },
+  { key: "mi", label: "MI", numeric: true, corpusOnly: true, value: (row) => row.collocation.statistics?.mi, format: fixed(2) },
+  { key: "mi3", label: "MI3", numeric: true, corpusOnly: true, value: (row) => row.collocation.statistics?.mi3, format: fixed(2) },
+  { key: "tScore", label: "t-score", numeric: true, corpusOnly: true, value: (row) => row.collocation.statistics?.tScore, format: fixed(2) },
+  {
+    key: "logLikelihood",
+    label: "Log-likelihood",
+    numeric: true,
+    corpusOnly: true,
+    value: (row) => row.collocation.statistics?.logLikelihood,
+    format: fixed(2),
+  },
+  { key: "dice", label: "Dice", numeric: true, corpusOnly: true, value: (row) => row.collocation.statistics?.dice, format: fixed(4) },
+  { key: "logDice", label: "logDice", numeric: true, corpusOnly: true, value: (row) => row.collocation.statistics?.logDice, format: fixed(2) },
+  { key: "range", label: "Range", numeric: true, corpusOnly: true, value: (row) => row.collocation.dispersion?.range },
+  {
+    key: "juillandD",
+    label: "Juilland's D",
+    numeric: true,
+    corpusOnly: true,
+    value: (row) => row.collocation.dispersion?.juillandD,
+    format: fixed(3),
+  },
+];
+
+// Row limits offered; 0 shows every row
+const TOP_N_OPTIONS = [0, 10, 25, 50, 100];
+// Example sentences asked for at a time
+const EXAMPLE_COUNT_OPTIONS = [1, 2, 3, 5];
+
+interface TablePreferences {
+  sort: { column: ColumnKey; descending: boolean };
+  hidden: ColumnKey[];
+  minFrequency: number;
+  topN: number;
+  exampleCount: number;
+  difficulty: Difficulty;
+}
+
+const DEFAULT_PREFERENCES: TablePreferences = {
+  // The analysis's own ranking
+  sort: { column: "rank", descending: false },
+  hidden: ["lemma", "mi3", "dice"],
+  minFrequency: 0,
+  topN: 0,
+  exampleCount: 2,
+  difficulty: DEFAULT_DIFFICULTY,
+};
+
+const compare = (x: Row, y: Row, column: Column) => {
+  const a = column.value(x);
+  const b = column.value(y);
+  // Missing values sort last in either direction
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  return typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b));
+};
+
+// Sentences generated on request for one collocate
+interface GeneratedExamples {
+  sentences: string[];
+  annotations: SentenceAnnotation[];
+  // Whether they replace the analysis's own sentences (model results only; corpus sentences are evidence)
+  replaceOriginal: boolean;
+}
+
+interface CollocationTableProps {
+  // The search the collocations come from; generated example sentences belong to it
+  search: (SearchSettings & { word: string }) | null;
+  language?: Language;
+  collocations: Collocation[];
+}
+
+// Collocates as a sortable, filterable table; the sort, columns and limits are remembered across visits
+export function CollocationTable({ search, language, collocations }: CollocationTableProps) {
+  const [preferences, setPreferences] = useLocalStorage<TablePreferences>(
+    "collocation-table-preferences",
+    DEFAULT_PREFERENCES
+  );
+  const [filter, setFilter] = useState("");
+  // Expanded rows, generated sentences and requests in flight, by row key
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [generated, setGenerated] = useState<Record<string, GeneratedExamples>>({});
+  const [generating, setGenerating] = useState<Set<string>>(new Set());
+  // The current search, so that answers to requests made for an earlier one are dropped
+  const searchRef = useRef(search);
+  const { toast } = useToast();
+
+  // A new search starts over; collocates streaming in for the same search keep what was generated
+  useEffect(() => {
+    searchRef.current = search;
+    setExpanded(new Set());
+    setGenerated({});
+    setGenerating(new Set());
+  }, [search]);
+
+  const isCorpus = collocations.some((collocation) => collocation.statistics);
+  const available = COLUMNS.filter((column) => isCorpus || !column.corpusOnly);
+  const visible = available.filter((column) => column.key === "collocate" || !preferences.hidden.includes(column.key));
+  // A saved sort on a column these results lack (e.g. logDice for model results) falls back to the ranking
+  const sortColumn = available.find((column) => column.key === preferences.sort.column) ?? COLUMNS[0];
+  const descending = sortColumn.key === preferences.sort.column && preferences.sort.descending;
+
+  const needle = filter.trim().toLowerCase();
+  const matching = collocations
+    .map((collocation, index) => ({
+      rank: index + 1,
+      key: formatLemmaPos(collocation.lemma, collocation.pos),
+      collocation,
+    }))
+    .filter(
+      ({ collocation }) =>
+        collocation.frequency >= preferences.minFrequency &&
+        (collocation.collocate.toLowerCase().includes(needle) || collocation.lemma.toLowerCase().includes(needle))
+    )
+    .sort((x, y) => (descending ? -1 : 1) * compare(x, y, sortColumn));
+  const rows = preferences.topN > 0 ? matching.slice(0, preferences.topN) : matching;
+
+  const toggleSort = (column: Column) =>
+    setPreferences((prev) => ({
+      ...prev,
+      sort: {
+        column: column.key,
+        descending: prev.sort.column === column.key ? !prev.sort.descending : column.numeric && column.key !== "rank",
+      },
+    }));
+
+  const toggleColumn = (key: ColumnKey, show: boolean) =>
+    setPreferences((prev) => ({
+      ...prev,
+      hidden: show ? prev.hidden.filter((hidden) => hidden !== key) : [...prev.hidden, key],
+    }));
+
+  const toggleExpanded = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+
+  // The sentences shown for a collocate: its own (unless replaced), then any generated ones
+  const examplesOf = (row: Row) => {
+    const extra = generated[row.key];
+    return {
+      original: extra?.replaceOriginal ? [] : row.collocation.exampleSentences,
+      generated: extra?.sentences ?? [],
+      generatedAnnotations: extra?.annotations ?? [],
+    };
+  };
+
+  // "more" appends new sentences; "regenerate" replaces the ones generated (or, for model results, all of them)
+  const handleGenerate = async (row: Row, mode: "more" | "regenerate") => {
+    if (!search) return;
+    const { original, generated: previous, generatedAnnotations } = examplesOf(row);
+    const isCurrent = () => searchRef.current === search;
+    const query = parseNodeQuery(search.word, search.matchLemma);
+    setGenerating((prev) => new Set(prev).add(row.key));
+    try {
+      const { sentences, annotations } = await generateExampleSentences({
+        // The prompt wants the word itself, not the query ("make", used as a verb, for "make_V")
+        word: query.word,
+        pos: query.pos,
+        collocations: [row.collocation.collocate],
+        count: preferences.exampleCount,
+        difficulty: preferences.difficulty,
+        language,
+        // What is on screen (as much as a request can carry), so that the new sentences differ from it
+        exclude: sentencesToExclude([...original, ...previous]),
+      });
+      if (!isCurrent()) return;
+      if (sentences.length === 0) {
+        toast({ title: "No new sentences", description: `No further examples for "${row.collocation.collocate}".` });
+        return;
+      }
+      setGenerated((prev) => ({
+        ...prev,
+        [row.key]:
+          mode === "more"
+            ? {
+                sentences: [...previous, ...sentences],
+                annotations: [...generatedAnnotations, ...annotations],
+                replaceOriginal: prev[row.key]?.replaceOriginal ?? false,
+              }
+            : { sentences, annotations, replaceOriginal: row.collocation.source === "model" },
+      }));
+    } catch (error: any) {
+      if (!isCurrent()) return;
+      console.error("Failed to generate example sentences:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate example sentences. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (isCurrent()) {
+        setGenerating((prev) => {
+          const next = new Set(prev);
+          next.delete(row.key);
+          return next;
+        });
+      }
+    }
+  };
+
+  return (
+    <div>
+      {/* Filters and column choice */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2 mb-2">
+        <div className="grid gap-1 flex-grow">
+          <Label htmlFor="collocate-filter">Filter</Label>
+          <Input
+            id="collocate-filter"
+            placeholder="Collocate or lemma contains..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-1 sm:w-28">
+          <Label htmlFor="min-frequency">Min. frequency</Label>
+          <Input
+            id="min-frequency"
+            type="number"
+            min={0}
+            value={preferences.minFrequency}
+            onChange={(e) => setPreferences((prev) => ({ ...prev, minFrequency: Math.max(0, Number(e.target.value) || 0) }))}
+          />
+        </div>
+        <div className="grid gap-1 sm:w-28">
+          <Label htmlFor="top-n">Show</Label>
+          <Select
+            value={String(preferences.topN)}
+            onValueChange={(value) => setPreferences((prev) => ({ ...prev, topN: Number(value) }))}
+          >
+            <SelectTrigger id="top-n">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TOP_N_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n === 0 ? "All" : `Top ${n}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {/* How generated example sentences are asked for */}
+        <div className="grid gap-1 sm:w-24">
+          <Label htmlFor="example-count">Examples</Label>
+          <Select
+            value={String(preferences.exampleCount)}
+            onValueChange={(value) => setPreferences((prev) => ({ ...prev, exampleCount: Number(value) }))}
+          >
+            <SelectTrigger id="example-count">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXAMPLE_COUNT_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1 sm:w-48">
+          <Label htmlFor="example-difficulty">Level</Label>
+          <Select
+            value={preferences.difficulty}
+            onValueChange={(value) => setPreferences((prev) => ({ ...prev, difficulty: value as Difficulty }))}
+          >
+            <SelectTrigger id="example-difficulty">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIFFICULTIES.map((difficulty) => (
+                <SelectItem key={difficulty} value={difficulty}>
+                  {DIFFICULTY_LABELS[difficulty]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" title="Show or hide columns">
+              <Columns3 />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Columns</DropdownMenuLabel>
+            {available
+              .filter((column) => column.key !== "collocate")
+              .map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.key}
+                  checked={!preferences.hidden.includes(column.key)}
+                  onCheckedChange={(checked) => toggleColumn(column.key, checked)}
+                  // Keep the menu open while several columns are toggled
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {column.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <p className="text-xs text-muted-foreground mb-2">
+        Showing {rows.length} of {collocations.length} collocates
+        {preferences.topN > 0 && matching.length > rows.length && ` (${matching.length} match the filters)`}. Click a
+        heading to sort; click a row for its example sentences.
+      </p>
+
+      <Table className="text-sm">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8" />
+            {visible.map((column) => (
+              <TableHead key={column.key} className={column.numeric ? "text-right" : undefined}>
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 hover:text-foreground"
+                  onClick={() => toggleSort(column)}
+                >
+                  {column.label}
+                  {sortColumn.key === column.key &&
+                    (descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => {
+            const { collocation } = row;
+            const isExpanded = expanded.has(row.key);
+            const examples = examplesOf(row);
+            return (
+              <React.Fragment key={row.rank}>
+                <TableRow className="cursor-pointer" onClick={() => toggleExpanded(row.key)}>
+                  <TableCell className="text-muted-foreground">
+                    {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </TableCell>
+                  {visible.map((column) => {
+                    const value = column.value(row);
+                    return (
+                      <TableCell key={column.key} className={column.numeric ? "text-right font-mono" : undefined}>
+                        {column.key === "collocate" ? (
+                          <span className="font-semibold text-primary">
+                            {collocation.collocate}
+                            {/* Corpus check of a model suggestion: unattested collocates may be invented */}
+                            {collocation.verification && (
+                              <Badge
+                                variant={collocation.verification.attested ? "secondary" : "destructive"}
+                                className="ml-2 align-middle"
+                                title={`${collocation.verification.coOccurrences} co-occurrences within the span in ${collocation.verification.corpus}`}
+                              >
+                                {collocation.verification.attested
+                                  ? `Attested (${collocation.verification.coOccurrences})`
+                                  : "Unattested"}
+                              </Badge>
+                            )}
+                          </span>
+                        ) : value == null ? (
+                          "–"
+                        ) : typeof value === "number" && column.format ? (
+                          column.format(value)
+                        ) : (
+                          value
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                {isExpanded && (
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell />
+                    <TableCell colSpan={visible.length}>
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {collocation.source === "corpus" ? "Corpus frequency" : "Estimated frequency"}: {collocation.frequency}{" "}
+                        · Lemma: {collocation.lemma}
+                      </p>
+                      {examples.original.length + examples.generated.length > 0 ? (
+                        <ul className="list-disc list-inside pl-2 space-y-1">
+                          {examples.original.map((sentence, sentenceIndex) => (
+                            <li key={`original-${sentenceIndex}`} className="text-sm text-muted-foreground">
+                              <AnnotatedSentence text={sentence} annotation={collocation.annotations?.[sentenceIndex]} />
+                              {collocation.verification && (
+                                <Badge
+                                  variant="outline"
+                                  className="ml-2 align-middle font-normal"
+                                  title={`Whether this sentence occurs in ${collocation.verification.corpus}`}
+                                >
+                                  {collocation.verification.sentencesAttested[sentenceIndex] ? "In corpus" : "Not in corpus"}
+                                </Badge>
+                              )}
+                            </li>
+                          ))}
+                          {examples.generated.map((sentence, sentenceIndex) => (
+                            <li key={`generated-${sentenceIndex}`} className="text-sm text-muted-foreground">
+                              <AnnotatedSentence text={sentence} annotation={examples.generatedAnnotations[sentenceIndex]} />
+                              {/* Set apart from sentences found in the corpus */}
+                              {collocation.source === "corpus" && (
+                                <Badge variant="outline" className="ml-2 align-middle font-normal">
+                                  Generated
+                                </Badge>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No example sentences.</p>
+                      )}
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={generating.has(row.key)}
+                          onClick={() => handleGenerate(row, "more")}
+                          title={`Add ${preferences.exampleCount} new example sentences`}
+                        >
+                          <Plus />
+                          More examples
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={generating.has(row.key)}
+                          onClick={() => handleGenerate(row, "regenerate")}
+                          title={
+                            collocation.source === "corpus"
+                              ? "Replace the generated sentences (corpus sentences stay)"
+                              : "Replace the example sentences"
+                          }
+                        >
+                          <RefreshCw className={generating.has(row.key) ? "animate-spin" : undefined} />
+                          Regenerate
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+      {rows.length === 0 && (
+        <p className="text-center text-muted-foreground mt-2">No collocates match the filters.</p>
+      )}
+    </div>
+  );
+}
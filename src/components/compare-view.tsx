@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { ArrowLeftRight } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { fetchCollocations } from "@/lib/collocation-api";
+import {
+  compareCollocations,
+  type CollocationComparison,
+  type ComparedCollocate,
+  type ComparisonMeasure,
+} from "@/lib/collocation-compare";
+import { formatLemmaPos, POS_LABELS } from "@/lib/corpus/pos";
+import type { SearchSettings } from "@/lib/history-db";
+
+const chartConfig = {
+  a: { label: "First word", color: "hsl(var(--chart-1))" },
+  b: { label: "Second word", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// Collocates in the chart: the ones that set the two words apart the most
+const CHART_COLLOCATES = 20;
+// Height of one collocate's bar in the chart, in pixels
+const BAR_HEIGHT = 22;
+
+const MEASURE_LABELS: Record<ComparisonMeasure, string> = {
+  logDice: "logDice",
+  share: "% of collocate frequency",
+};
+
+const formatScore = (score: number | null) => (score === null ? "–" : score.toFixed(1));
+
+interface CollocateColumnProps {
+  title: string;
+  collocates: ComparedCollocate[];
+  // Renders the score(s) shown next to each collocate
+  describe: (collocate: ComparedCollocate) => string;
+}
+
+function CollocateColumn({ title, collocates, describe }: CollocateColumnProps) {
+  return (
+    <div className="rounded-md border border-border p-3">
+      <h3 className="font-semibold mb-2">
+        {title} <span className="font-normal text-muted-foreground">({collocates.length})</span>
+      </h3>
+      {collocates.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {collocates.map((collocate) => (
+            <li key={`${collocate.lemma}_${collocate.pos}`} className="flex justify-between gap-2">
+              <span title={`${collocate.lemma}, ${POS_LABELS[collocate.pos]}`}>{collocate.collocate}</span>
+              <span className="font-mono text-muted-foreground">{describe(collocate)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">None</p>
+      )}
+    </div>
+  );
+}
+
+interface CompareViewProps {
+  // The search settings both words are analyzed with
+  settings: SearchSettings;
+}
+
+// Compares the collocates of two near-synonyms ("strong" vs "powerful") side by side
+export function CompareView({ settings }: CompareViewProps) {
+  const [words, setWords] = useState({ a: "", b: "" });
+  const [compared, setCompared] = useState<{ a: string; b: string; comparison: CollocationComparison } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const handleCompare = async () => {
+    const a = words.a.trim();
+    const b = words.b.trim();
+    if (!a || !b) {
+      toast({ title: "Error", description: "Please enter two words to compare.", variant: "destructive" });
+      return;
+    }
+    if (a.toLowerCase() === b.toLowerCase()) {
+      toast({ title: "Error", description: "Please enter two different words.", variant: "destructive" });
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    const { verifyAgainst, ...input } = settings;
+    try {
+      // Both analyses run side by side
+      const [resultA, resultB] = await Promise.all(
+        [a, b].map((word) => fetchCollocations({ ...input, word }, { verifyAgainst, signal: controller.signal }))
+      );
+      setCompared({ a, b, comparison: compareCollocations(resultA.collocations, resultB.collocations) });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error("Failed to compare collocations:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to compare collocations. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const comparison = compared?.comparison;
+  // Diverging bars: to the left for the first word, to the right for the second
+  const chartData = comparison
+    ? [...comparison.shared, ...comparison.onlyA, ...comparison.onlyB]
+        .sort((x, y) => Math.abs(y.difference) - Math.abs(x.difference))
+        .slice(0, CHART_COLLOCATES)
+        .sort((x, y) => y.difference - x.difference)
+        .map((collocate) => ({
+          ...collocate,
+          // The same form may be a collocate as more than one part of speech ("light" adj and noun)
+          key: formatLemmaPos(collocate.lemma, collocate.pos),
+          lean: -collocate.difference,
+        }))
+    : [];
+  // Axis labels by key; a form that appears more than once is told apart by its part of speech
+  const axisLabels = new Map(
+    chartData.map((point) => [
+      point.key,
+      chartData.filter((other) => other.collocate === point.collocate).length > 1
+        ? `${point.collocate} (${POS_LABELS[point.pos]})`
+        : point.collocate,
+    ])
+  );
+  const extent = Math.max(1, ...chartData.map((point) => Math.abs(point.lean)));
+
+  return (
+    <Card className="shadow-md border border-border">
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl">Compare</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
+          <Input
+            placeholder="First word (e.g., 'strong')"
+            value={words.a}
+            onChange={(e) => setWords((prev) => ({ ...prev, a: e.target.value }))}
+            onKeyDown={(e) => e.key === "Enter" && handleCompare()}
+            aria-label="First word"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setWords((prev) => ({ a: prev.b, b: prev.a }))}
+            title="Swap the words"
+          >
+            <ArrowLeftRight />
+          </Button>
+          <Input
+            placeholder="Second word (e.g., 'powerful')"
+            value={words.b}
+            onChange={(e) => setWords((prev) => ({ ...prev, b: e.target.value }))}
+            onKeyDown={(e) => e.key === "Enter" && handleCompare()}
+            aria-label="Second word"
+          />
+          <Button onClick={handleCompare} disabled={isLoading}>
+            {isLoading ? "Comparing..." : "Compare"}
+          </Button>
+        </div>
+
+        {compared && comparison && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Scores: {MEASURE_LABELS[comparison.measure]}. Bars show which word a collocate leans to.
+            </p>
+            {chartData.length > 0 && (
+              <ChartContainer
+                config={chartConfig}
+                className="aspect-auto w-full"
+                style={{ height: chartData.length * BAR_HEIGHT + 60 }}
+              >
+                <BarChart data={chartData} layout="vertical" margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis
+                    type="number"
+                    domain={[-extent, extent]}
+                    tickFormatter={(value: number) => Math.abs(value).toFixed(0)}
+                    label={{ value: `← ${compared.a}   ·   ${compared.b} →`, position: "insideBottom", offset: -5 }}
+                  />
+                  <YAxis
+                    type="category"
+                    dataKey="key"
+                    width={110}
+                    interval={0}
+                    tickFormatter={(key: string) => axisLabels.get(key) ?? key}
+                  />
+                  <ReferenceLine x={0} stroke="hsl(var(--border))" />
+                  <ChartTooltip
+                    cursor={false}
+                    content={({ payload }) => {
+                      const point = payload?.[0]?.payload as ComparedCollocate | undefined;
+                      return point ? (
+                        <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                          <p className="font-medium">
+                            {point.collocate}{" "}
+                            <span className="font-normal text-muted-foreground">{POS_LABELS[point.pos]}</span>
+                          </p>
+                          <p>
+                            {compared.a}: {formatScore(point.scoreA)} · {compared.b}: {formatScore(point.scoreB)}
+                          </p>
+                        </div>
+                      ) : null;
+                    }}
+                  />
+                  <Bar dataKey="lean" radius={2}>
+                    {chartData.map((point) => (
+                      <Cell
+                        key={point.key}
+                        fill={point.lean < 0 ? "var(--color-a)" : "var(--color-b)"}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            {/* Side by side: exclusive to the first word, shared, exclusive to the second word */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <CollocateColumn
+                title={`Only ${compared.a}`}
+                collocates={comparison.onlyA}
+                describe={(collocate) => formatScore(collocate.scoreA)}
+              />
+              <CollocateColumn
+                title="Shared"
+                collocates={comparison.shared}
+                describe={(collocate) => `${formatScore(collocate.scoreA)} / ${formatScore(collocate.scoreB)}`}
+              />
+              <CollocateColumn
+                title={`Only ${compared.b}`}
+                collocates={comparison.onlyB}
+                describe={(collocate) => formatScore(collocate.scoreB)}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getConcordance } from "@/app/actions/corpus";
+import {
+  CONCORDANCE_SORT_KEYS,
+  type ConcordancePage,
+  type ConcordanceSortKey,
+} from "@/lib/corpus/concordance";
+
+const PAGE_SIZE = 50;
+// Characters of context shown on each side of the node
+const CONTEXT_CHARS = 60;
+
+interface ConcordanceViewProps {
+  corpus: string;
+  word: string;
+  // Match every inflected form of the word (implied by lemma_POS queries)
+  matchLemma?: boolean;
+}
+
+const clipLeft = (text: string) =>
+  text.length > CONTEXT_CHARS ? `…${text.slice(-CONTEXT_CHARS)}` : text;
+const clipRight = (text: string) =>
+  text.length > CONTEXT_CHARS ? `${text.slice(0, CONTEXT_CHARS)}…` : text;
+
+// Keyword-in-context view listing every hit of the node in a corpus
+export function ConcordanceView({ corpus, word, matchLemma = false }: ConcordanceViewProps) {
+  const [sortBy, setSortBy] = useState<ConcordanceSortKey>("text");
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<ConcordancePage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the first page whenever the search changes
+  useEffect(() => {
+    setPage(0);
+  }, [corpus, word, matchLemma, sortBy]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getConcordance({ corpus, word, matchLemma, sortBy, page, pageSize: PAGE_SIZE })
+      .then((concordance) => {
+        if (!cancelled) setResult(concordance);
+      })
+      .catch((err: any) => {
+        console.error("Failed to load concordance:", err);
+        if (!cancelled) setError(err.message || "Failed to load concordance.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [corpus, word, matchLemma, sortBy, page]);
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / PAGE_SIZE)) : 1;
+
+  return (
+    <Card className="shadow-lg border border-border">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 space-y-0">
+        <CardTitle className="text-xl md:text-2xl">
+          Concordance for "{word}"
+          {result && (
+            <span className="text-sm font-normal text-muted-foreground ml-2">({result.total} hits)</span>
+          )}
+        </CardTitle>
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as ConcordanceSortKey)}>
+          <SelectTrigger className="w-full sm:w-40" aria-label="Sort concordance by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONCORDANCE_SORT_KEYS.map((key) => (
+              <SelectItem key={key} value={key}>
+                {key === "text" ? "Text order" : `Sort by ${key}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="pb-4">
+        {error && <p className="text-center text-destructive">{error}</p>}
+        {!error && result && result.total === 0 && (
+          <p className="text-center text-muted-foreground">No occurrences in corpus "{corpus}".</p>
+        )}
+        {!error && result && result.total > 0 && (
+          <>
+            <Table className="font-mono text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead className="text-right">Left</TableHead>
+                  <TableHead className="text-center">Node</TableHead>
+                  <TableHead>Right</TableHead>
+                  <TableHead>Text</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody className={isLoading ? "opacity-50" : undefined}>
+                {result.lines.map((line, index) => (
+                  <TableRow key={page * PAGE_SIZE + index}>
+                    <TableCell className="py-1 px-2 text-muted-foreground">{page * PAGE_SIZE + index + 1}</TableCell>
+                    <TableCell className="py-1 px-2 text-right whitespace-nowrap">{clipLeft(line.left)}</TableCell>
+                    <TableCell className="py-1 px-2 text-center whitespace-nowrap font-bold text-primary">
+                      {line.node}
+                    </TableCell>
+                    <TableCell className="py-1 px-2 whitespace-nowrap">{clipRight(line.right)}</TableCell>
+                    <TableCell className="py-1 px-2 whitespace-nowrap text-muted-foreground">{line.textName}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {/* Paging */}
+            <div className="flex items-center justify-end gap-2 mt-4">
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={isLoading || page === 0}
+                title="Previous page"
+              >
+                <ChevronLeft />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={isLoading || page + 1 >= pageCount}
+                title="Next page"
+              >
+                <ChevronRight />
+              </Button>
+            </div>
+          </>
+        )}
+        {isLoading && !result && <p className="text-center text-muted-foreground">Loading concordance...</p>}
+      </CardContent>
+    </Card>
+  );
+}
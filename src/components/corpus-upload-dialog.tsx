@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { uploadCorpus, type CorpusSummary } from "@/app/actions/corpus";
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, LANGUAGES, type Language } from "@/lib/corpus/language";
+import { useToast } from "@/hooks/use-toast";
+
+interface CorpusUploadDialogProps {
+  // Called with the stored corpus once ingestion succeeds
+  onUploaded: (summary: CorpusSummary) => void;
+}
+
+// Dialog for uploading .txt files or .zip archives as a named corpus
+export function CorpusUploadDialog({ onUploaded }: CorpusUploadDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const [files, setFiles] = useState<FileList | null>(null);
+  // Uploading under an existing name fails unless the user agrees to replace that corpus
+  const [replace, setReplace] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!files || files.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please choose at least one .txt or .zip file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("name", name.trim());
+    formData.append("language", language);
+    formData.append("replace", String(replace));
+    Array.from(files).forEach((file) => formData.append("files", file));
+
+    setIsUploading(true);
+    try {
+      const summary = await uploadCorpus(formData);
+      toast({
+        title: "Corpus ready",
+        description: `"${summary.name}" (${LANGUAGE_NAMES[summary.language]}): ${summary.textCount} texts, ${summary.sentenceCount} sentences, ${summary.tokenCount} tokens.`,
+      });
+      onUploaded(summary);
+      setOpen(false);
+      setName("");
+      setFiles(null);
+      setReplace(false);
+    } catch (error: any) {
+      console.error("Failed to upload corpus:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload corpus. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto" title="Upload a corpus">
+          <Upload />
+          Upload Corpus
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Upload Corpus</DialogTitle>
+            <DialogDescription>
+              Plain-text (.txt) files or .zip archives of them. Each file becomes one text of the corpus.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="corpus-name">Corpus name</Label>
+            <Input
+              id="corpus-name"
+              placeholder="e.g. news-2024"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="corpus-language">Language</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+              <SelectTrigger id="corpus-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {LANGUAGE_NAMES[code]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="corpus-files">Files</Label>
+            <Input
+              id="corpus-files"
+              type="file"
+              accept=".txt,.zip,text/plain,application/zip"
+              multiple
+              onChange={(e) => setFiles(e.target.files)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="corpus-replace" checked={replace} onCheckedChange={(checked) => setReplace(checked === true)} />
+            <Label htmlFor="corpus-replace" className="font-normal">
+              Replace an existing corpus with this name
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isUploading}>
+              {isUploading ? "Ingesting..." : "Upload"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
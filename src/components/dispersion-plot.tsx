@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { CartesianGrid, Scatter, ScatterChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { getDispersion } from "@/app/actions/corpus";
+import type { DispersionAnalysis } from "@/lib/corpus/dispersion";
+
+const chartConfig = {
+  hit: { label: "Hit", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Height of one text's row in the plot, in pixels
+const ROW_HEIGHT = 28;
+
+interface DispersionPlotProps {
+  corpus: string;
+  word: string;
+  matchLemma?: boolean;
+}
+
+// Plots every hit of the node across each text of the corpus (one row per text)
+export function DispersionPlot({ corpus, word, matchLemma = false }: DispersionPlotProps) {
+  const [analysis, setAnalysis] = useState<DispersionAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    getDispersion({ corpus, word, matchLemma })
+      .then((result) => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch((err: any) => {
+        console.error("Failed to compute dispersion:", err);
+        if (!cancelled) setError(err.message || "Failed to compute dispersion.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [corpus, word, matchLemma]);
+
+  if (error) {
+    return <p className="text-center text-destructive">{error}</p>;
+  }
+  if (!analysis) {
+    return <p className="text-center text-muted-foreground">Loading dispersion...</p>;
+  }
+
+  const points = analysis.texts.flatMap((text, textIndex) =>
+    text.hits.map((position) => ({ position: position * 100, text: textIndex, name: text.name }))
+  );
+
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground mb-2">
+        {analysis.frequency} hits in {analysis.range} of {analysis.texts.length} texts
+        {analysis.juillandD !== null && <> · Juilland's D {analysis.juillandD.toFixed(3)}</>}
+      </p>
+      <ChartContainer
+        config={chartConfig}
+        className="aspect-auto w-full"
+        style={{ height: Math.max(120, analysis.texts.length * ROW_HEIGHT + 60) }}
+      >
+        <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis
+            type="number"
+            dataKey="position"
+            domain={[0, 100]}
+            tickFormatter={(value) => `${value}%`}
+            name="Position in text"
+          />
+          <YAxis
+            type="number"
+            dataKey="text"
+            domain={[-0.5, analysis.texts.length - 0.5]}
+            ticks={analysis.texts.map((_, index) => index)}
+            tickFormatter={(index) => analysis.texts[index]?.name ?? ""}
+            reversed
+            width={120}
+          />
+          <ChartTooltip
+            cursor={false}
+            content={({ payload }) => {
+              const point = payload?.[0]?.payload;
+              return point ? (
+                <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  {point.name}: {point.position.toFixed(1)}%
+                </div>
+              ) : null;
+            }}
+          />
+          {/* Each hit is drawn as a thin vertical tick, as in WordSmith's dispersion plot */}
+          <Scatter
+            data={points}
+            fill="var(--color-hit)"
+            shape={(props: unknown) => {
+              const { cx, cy } = props as { cx: number; cy: number };
+              return (
+                <rect
+                  x={cx - 0.75}
+                  y={cy - ROW_HEIGHT / 3}
+                  width={1.5}
+                  height={(ROW_HEIGHT * 2) / 3}
+                  fill="var(--color-hit)"
+                />
+              );
+            }}
+          />
+        </ScatterChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { exportCollocations, type CollocationResultSet, type ExportFormat } from "@/lib/collocation-export";
+import { downloadFile } from "@/lib/export";
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV (.csv)" },
+  { format: "tsv", label: "TSV (.tsv)" },
+  { format: "json", label: "JSON (.json)" },
+  { format: "xlsx", label: "Excel workbook (.xlsx)" },
+];
+
+interface ExportMenuProps {
+  resultSets: CollocationResultSet[];
+  // Download name without extension
+  filename: string;
+}
+
+// Dropdown that downloads the given collocation results in the chosen format
+export function ExportMenu({ resultSets, filename }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    const { content, mimeType } = exportCollocations(resultSets, format);
+    downloadFile(`${filename}.${format}`, content, mimeType);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={resultSets.length === 0}>
+          <Download />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getKeywords } from "@/app/actions/corpus";
+import type { Keyword, KeywordAnalysis } from "@/lib/corpus/keywords";
+import { downloadFile, toDelimited } from "@/lib/export";
+import { useToast } from "@/hooks/use-toast";
+
+type SortColumn = keyof Keyword;
+
+const COLUMNS: { key: SortColumn; label: string; numeric: boolean }[] = [
+  { key: "word", label: "Keyword", numeric: false },
+  { key: "studyFrequency", label: "Study freq.", numeric: true },
+  { key: "referenceFrequency", label: "Ref. freq.", numeric: true },
+  { key: "logLikelihood", label: "Log-likelihood", numeric: true },
+  { key: "percentDiff", label: "%DIFF", numeric: true },
+  { key: "logRatio", label: "Log Ratio", numeric: true },
+];
+
+const formatValue = (keyword: Keyword, column: SortColumn) => {
+  const value = keyword[column];
+  if (typeof value !== "number" || column === "studyFrequency" || column === "referenceFrequency") {
+    return value;
+  }
+  return value.toFixed(2);
+};
+
+interface KeywordTableProps {
+  keywords: Keyword[];
+}
+
+// Keyword table sortable by any column (click a heading; click again to reverse)
+function KeywordTable({ keywords }: KeywordTableProps) {
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({
+    column: "logLikelihood",
+    descending: true,
+  });
+
+  const sorted = [...keywords].sort((a, b) => {
+    const x = a[sort.column];
+    const y = b[sort.column];
+    const order = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+    return sort.descending ? -order : order;
+  });
+
+  if (keywords.length === 0) {
+    return <p className="text-center text-muted-foreground">No keywords reach significance.</p>;
+  }
+
+  return (
+    <Table className="text-sm">
+      <TableHeader>
+        <TableRow>
+          {COLUMNS.map(({ key, label, numeric }) => (
+            <TableHead key={key} className={numeric ? "text-right" : undefined}>
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 hover:text-foreground"
+                onClick={() =>
+                  setSort((prev) => ({ column: key, descending: prev.column === key ? !prev.descending : numeric }))
+                }
+              >
+                {label}
+                {sort.column === key &&
+                  (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+              </button>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map((keyword) => (
+          <TableRow key={keyword.word}>
+            {COLUMNS.map(({ key, numeric }) => (
+              <TableCell key={key} className={`py-1 px-2 ${numeric ? "text-right font-mono" : "font-semibold"}`}>
+                {formatValue(keyword, key)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface KeywordsViewProps {
+  corpora: string[];
+}
+
+// KeyWords: compares a study corpus with a reference corpus
+export function KeywordsView({ corpora }: KeywordsViewProps) {
+  const [study, setStudy] = useState("");
+  const [reference, setReference] = useState("");
+  const [minFrequency, setMinFrequency] = useState(3);
+  const [analysis, setAnalysis] = useState<KeywordAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleCompare = async () => {
+    if (!study || !reference) {
+      toast({
+        title: "Error",
+        description: "Please choose a study corpus and a reference corpus.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setAnalysis(await getKeywords({ study, reference, minFrequency }));
+    } catch (error: any) {
+      console.error("Failed to compute keywords:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to compute keywords. Please try again.",
+        variant: "destructive",
+      });
+      setAnalysis(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!analysis) return;
+    const rows = [
+      ...analysis.positive.map((keyword) => ["positive", ...COLUMNS.map(({ key }) => keyword[key])]),
+      ...analysis.negative.map((keyword) => ["negative", ...COLUMNS.map(({ key }) => keyword[key])]),
+    ];
+    const csv = toDelimited(["Keyness", ...COLUMNS.map(({ label }) => label)], rows);
+    downloadFile(`keywords-${study}-vs-${reference}.csv`, csv, "text/csv;charset=utf-8");
+  };
+
+  const corpusSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a corpus" />
+      </SelectTrigger>
+      <SelectContent>
+        {corpora.map((name) => (
+          <SelectItem key={name} value={name}>
+            {name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="shadow-lg border border-border">
+      <CardHeader>
+        <CardTitle className="text-xl md:text-2xl">KeyWords</CardTitle>
+      </CardHeader>
+      <CardContent className="pb-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end mb-4">
+          <div className="grid gap-2">
+            <Label htmlFor="keywords-study">Study corpus</Label>
+            {corpusSelect("keywords-study", study, setStudy)}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="keywords-reference">Reference corpus</Label>
+            {corpusSelect("keywords-reference", reference, setReference)}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="keywords-min-frequency">Minimum frequency</Label>
+            <Input
+              id="keywords-min-frequency"
+              type="number"
+              min={1}
+              value={minFrequency}
+              onChange={(e) => setMinFrequency(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+          <Button onClick={handleCompare} disabled={isLoading}>
+            {isLoading ? "Comparing..." : "Compare"}
+          </Button>
+        </div>
+
+        {analysis && (
+          <Tabs defaultValue="positive">
+            <div className="flex items-center justify-between mb-4">
+              <TabsList>
+                <TabsTrigger value="positive">Positive ({analysis.positive.length})</TabsTrigger>
+                <TabsTrigger value="negative">Negative ({analysis.negative.length})</TabsTrigger>
+              </TabsList>
+              <Button variant="outline" size="sm" onClick={handleExport}>
+                <Download />
+                CSV
+              </Button>
+            </div>
+            <TabsContent value="positive">
+              <KeywordTable keywords={analysis.positive} />
+            </TabsContent>
+            <TabsContent value="negative">
+              <KeywordTable keywords={analysis.negative} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalyzeCollocationsOutput } from "@/ai/flows/analyze-collocations";
+
+interface PositionalFrequencyTableProps {
+  node: string;
+  collocations: AnalyzeCollocationsOutput["collocations"];
+  span: { left: number; right: number };
+}
+
+// WordSmith-style breakdown of where each collocate occurs relative to the node (L5..R5)
+export function PositionalFrequencyTable({ node, collocations, span }: PositionalFrequencyTableProps) {
+  // Columns run from the farthest left position to the farthest right one
+  const leftPositions = Array.from({ length: span.left }, (_, i) => span.left - i);
+  const rightPositions = Array.from({ length: span.right }, (_, i) => i + 1);
+  const rows = collocations.filter((collocation) => collocation.positions);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  // The busiest position of each row is highlighted
+  const peakOf = (counts: number[]) => Math.max(0, ...counts);
+
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Collocate</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+          {leftPositions.map((position) => (
+            <TableHead key={`L${position}`} className="text-right">
+              L{position}
+            </TableHead>
+          ))}
+          <TableHead className="text-center text-primary">{node}</TableHead>
+          {rightPositions.map((position) => (
+            <TableHead key={`R${position}`} className="text-right">
+              R{position}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((collocation) => {
+          const { left, right } = collocation.positions!;
+          const peak = peakOf([...left, ...right]);
+          const cell = (count: number, key: string) => (
+            <TableCell
+              key={key}
+              className={`py-1 px-2 text-right font-mono ${count > 0 && count === peak ? "font-bold text-accent" : ""}`}
+            >
+              {count || ""}
+            </TableCell>
+          );
+          return (
+            <TableRow key={`${collocation.collocate}_${collocation.pos}`}>
+              <TableCell className="py-1 px-2 font-semibold">{collocation.collocate}</TableCell>
+              <TableCell className="py-1 px-2 text-right font-mono">{collocation.frequency}</TableCell>
+              {leftPositions.map((position) => cell(left[position - 1] ?? 0, `L${position}`))}
+              <TableCell className="py-1 px-2" />
+              {rightPositions.map((position) => cell(right[position - 1] ?? 0, `R${position}`))}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { format, endOfDay, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, Trash, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LANGUAGE_NAMES } from "@/lib/corpus/language";
+import type { HistoryEntry } from "@/lib/history-db";
+
+interface SearchHistoryProps {
+  entries: HistoryEntry[];
+  // Restores a past result without re-running the analysis (or just the word, if no result was kept)
+  onSelect: (entry: HistoryEntry) => void;
+  onDelete: (id: number) => void;
+  onClear: () => void;
+}
+
+const describeSettings = (entry: HistoryEntry) =>
+  // Words from the old history were kept without their settings or results
+  !entry.result
+    ? "results not saved"
+    : [
+        entry.settings.corpus ? `corpus: ${entry.settings.corpus}` : entry.model,
+        entry.settings.language && LANGUAGE_NAMES[entry.settings.language],
+        entry.settings.verifyAgainst ? `verified in ${entry.settings.verifyAgainst}` : null,
+        `${entry.settings.span.left}L-${entry.settings.span.right}R`,
+        entry.settings.matchLemma ? "lemma" : null,
+        `${entry.result.collocations.length} collocates`,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+
+// Search history card with word and date filters
+export function SearchHistory({ entries, onSelect, onDelete, onClear }: SearchHistoryProps) {
+  const [filter, setFilter] = useState("");
+  const [dates, setDates] = useState<DateRange | undefined>(undefined);
+
+  const filtered = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const from = dates?.from ? startOfDay(dates.from).getTime() : -Infinity;
+    const to = dates?.from ? endOfDay(dates.to ?? dates.from).getTime() : Infinity;
+    return entries.filter(
+      (entry) =>
+        entry.word.toLowerCase().includes(needle) && entry.timestamp >= from && entry.timestamp <= to
+    );
+  }, [entries, filter, dates]);
+
+  const dateLabel = dates?.from
+    ? dates.to && dates.to.getTime() !== dates.from.getTime()
+      ? `${format(dates.from, "MMM d")} – ${format(dates.to, "MMM d")}`
+      : format(dates.from, "MMM d, yyyy")
+    : "Any date";
+
+  return (
+    <Card className="shadow-md border border-border">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-lg md:text-xl">Search History</CardTitle>
+        {entries.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClear} title="Delete all saved searches">
+            Clear all
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <Input
+            placeholder="Filter by word"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="flex-grow"
+          />
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="justify-start font-normal">
+                <CalendarIcon />
+                {dateLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar mode="range" selected={dates} onSelect={setDates} disabled={{ after: new Date() }} />
+            </PopoverContent>
+          </Popover>
+          {dates && (
+            <Button variant="ghost" size="icon" onClick={() => setDates(undefined)} title="Clear date filter">
+              <X />
+            </Button>
+          )}
+        </div>
+
+        <ScrollArea className="h-64">
+          {filtered.length > 0 ? (
+            <div className="flex flex-col space-y-1">
+              {filtered.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    className="flex-grow justify-start text-left h-auto py-2"
+                    onClick={() => onSelect(entry)}
+                    title={entry.result ? `Show results for "${entry.word}"` : `Search for "${entry.word}" again`}
+                  >
+                    <span className="flex flex-col items-start">
+                      <span>{entry.word}</span>
+                      <span className="text-xs font-normal text-muted-foreground">
+                        {format(entry.timestamp, "PPp")} · {describeSettings(entry)}
+                      </span>
+                    </span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => onDelete(entry.id)} title="Delete this search">
+                    <Trash />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground">
+              {entries.length > 0 ? "No searches match the filters." : "No search history yet."}
+            </p>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
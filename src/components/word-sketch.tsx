@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import type { AnalyzeCollocationsOutput } from "@/ai/flows/analyze-collocations";
+import { RELATIONS, RELATION_LABELS } from "@/lib/corpus/relations";
+
+interface WordSketchProps {
+  node: string;
+  collocations: AnalyzeCollocationsOutput["collocations"];
+}
+
+// Collocates grouped into one column per grammatical relation
+export function WordSketch({ node, collocations }: WordSketchProps) {
+  // Only relations with at least one collocate get a column; order follows RELATIONS
+  const groups = RELATIONS.map((relation) => ({
+    relation,
+    items: collocations.filter((collocation) => collocation.relation === relation),
+  })).filter((group) => group.items.length > 0);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      {groups.map(({ relation, items }) => (
+        <div key={relation} className="rounded-md border border-border p-3">
+          <h3 className="font-semibold text-sm mb-2">
+            {RELATION_LABELS[relation].replace("X", `"${node}"`)}
+          </h3>
+          <ul className="space-y-1">
+            {items.map((collocation) => (
+              <li
+                key={`${collocation.collocate}_${collocation.pos}`}
+                className="flex justify-between text-sm"
+                title={collocation.exampleSentences[0]}
+              >
+                <span className="text-primary">{collocation.collocate}</span>
+                <span className="font-mono text-muted-foreground">
+                  {collocation.statistics ? collocation.statistics.logDice.toFixed(1) : collocation.frequency}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
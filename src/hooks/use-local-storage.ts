@@ -0,0 +1,42 @@
+"use client"
+
+import * as React from "react"
+
+// State that survives reloads, stored as JSON under `key` in localStorage. Stored objects are
+// merged over `initial`, so preferences saved by an older version gain new fields' defaults.
+export function useLocalStorage<T>(key: string, initial: T) {
+  const [value, setValue] = React.useState<T>(initial)
+
+  // Read after mounting, so server and first client render agree
+  React.useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      if (stored !== null) {
+        const parsed = JSON.parse(stored)
+        setValue((prev) =>
+          prev && typeof prev === "object" && !Array.isArray(prev) ? { ...prev, ...parsed } : parsed
+        )
+      }
+    } catch (error) {
+      console.error(`Error reading ${key} from localStorage:`, error)
+    }
+  }, [key])
+
+  const update = React.useCallback(
+    (next: React.SetStateAction<T>) => {
+      setValue((prev) => {
+        const resolved = next instanceof Function ? next(prev) : next
+        try {
+          window.localStorage.setItem(key, JSON.stringify(resolved))
+        } catch (error) {
+          // Private browsing or a full quota: the preference still applies for this visit
+          console.error(`Error saving ${key} to localStorage:`, error)
+        }
+        return resolved
+      })
+    },
+    [key]
+  )
+
+  return [value, update] as const
+}
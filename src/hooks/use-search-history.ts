@@ -0,0 +1,55 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  importLegacyHistory,
+  listHistoryEntries,
+  type HistoryEntry,
+} from "@/lib/history-db"
+
+// Past searches with their full results, persisted in IndexedDB (newest first)
+export function useSearchHistory() {
+  const [entries, setEntries] = React.useState<HistoryEntry[]>([])
+
+  React.useEffect(() => {
+    // Words searched before results were saved are moved over first
+    importLegacyHistory()
+      .catch((error) => console.error("Error importing the old search history:", error))
+      .then(listHistoryEntries)
+      .then(setEntries)
+      .catch((error) => console.error("Error reading search history:", error))
+  }, [])
+
+  const add = React.useCallback(async (entry: Omit<HistoryEntry, "id">) => {
+    try {
+      const saved = await addHistoryEntry(entry)
+      setEntries((prev) => [saved, ...prev])
+    } catch (error) {
+      console.error("Error saving search history:", error)
+    }
+  }, [])
+
+  const remove = React.useCallback(async (id: number) => {
+    try {
+      await deleteHistoryEntry(id)
+      setEntries((prev) => prev.filter((entry) => entry.id !== id))
+    } catch (error) {
+      console.error("Error deleting search history entry:", error)
+    }
+  }, [])
+
+  const clear = React.useCallback(async () => {
+    try {
+      await clearHistory()
+      setEntries([])
+    } catch (error) {
+      console.error("Error clearing search history:", error)
+    }
+  }, [])
+
+  return { entries, add, remove, clear }
+}
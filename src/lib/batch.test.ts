@@ -0,0 +1,77 @@
+import {describe, expect, it} from 'vitest';
+import {runBatch} from '@/lib/batch';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('runBatch', () => {
+  it('never runs more tasks at once than the concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    const outcomes = await runBatch(
+      [1, 2, 3, 4, 5, 6, 7],
+      async n => {
+        peak = Math.max(peak, ++running);
+        await tick();
+        running--;
+        return n * 2;
+      },
+      {concurrency: 3, retries: 0}
+    );
+
+    expect(peak).toBe(3);
+    expect(outcomes.map(outcome => outcome.ok && outcome.value)).toEqual([2, 4, 6, 8, 10, 12, 14]);
+  });
+
+  it('retries a failing task and reports the last error', async () => {
+    const calls = new Map<string, number>();
+    const settled: string[] = [];
+    const outcomes = await runBatch(
+      ['flaky', 'broken'],
+      async item => {
+        const count = (calls.get(item) ?? 0) + 1;
+        calls.set(item, count);
+        if (item === 'broken' || count < 2) {
+          throw new Error(`${item} failed (${count})`);
+        }
+        return item;
+      },
+      {concurrency: 2, retries: 2, retryDelayMs: 1, onSettled: item => settled.push(item)}
+    );
+
+    expect(outcomes[0]).toEqual({ok: true, value: 'flaky', attempts: 2});
+    expect(outcomes[1]).toMatchObject({ok: false, attempts: 3, error: new Error('broken failed (3)')});
+    expect(settled.sort()).toEqual(['broken', 'flaky']);
+  });
+
+  it('does not retry failures that are not retryable', async () => {
+    let calls = 0;
+    const outcomes = await runBatch(
+      ['invalid'],
+      async item => {
+        calls++;
+        throw new Error(`${item} rejected`);
+      },
+      {concurrency: 1, retries: 3, retryDelayMs: 1, isRetryable: error => !/rejected/.test(error.message)}
+    );
+
+    expect(calls).toBe(1);
+    expect(outcomes[0]).toMatchObject({ok: false, attempts: 1, error: new Error('invalid rejected')});
+  });
+
+  it('starts no new items once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const outcomes = await runBatch(
+      [1, 2, 3, 4],
+      async n => {
+        started.push(n);
+        controller.abort();
+        return n;
+      },
+      {concurrency: 1, retries: 0, signal: controller.signal}
+    );
+
+    expect(started).toEqual([1]);
+    expect(outcomes.filter(Boolean)).toHaveLength(1);
+  });
+});
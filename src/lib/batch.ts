@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Runs an async task over many items with bounded concurrency and retries.
+ * Environment-agnostic, so it serves both the command-line batch tool and the browser.
+ */
+
+export interface BatchOptions<T, R> {
+  /** Maximum number of tasks running at once. */
+  concurrency: number;
+  /** How often a failed task is retried before it counts as failed. */
+  retries: number;
+  /** Delay before the first retry, in milliseconds; doubles with every further retry. */
+  retryDelayMs?: number;
+  /** Whether a failure may go away if the task runs again (default: every failure). */
+  isRetryable?: (error: Error) => boolean;
+  /** Stops starting new items (and retries). Running tasks are left to settle. */
+  signal?: AbortSignal;
+  /** Called once per item when it succeeds or has failed for the last time. */
+  onSettled?: (item: T, outcome: BatchOutcome<R>, index: number) => void;
+}
+
+export type BatchOutcome<R> =
+  | {ok: true; value: R; attempts: number}
+  | {ok: false; error: Error; attempts: number};
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, {once: true});
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+async function attempt<T, R>(
+  item: T,
+  task: (item: T) => Promise<R>,
+  {retries, retryDelayMs = DEFAULT_RETRY_DELAY_MS, isRetryable = () => true, signal}: BatchOptions<T, R>
+): Promise<BatchOutcome<R>> {
+  let attempts = 0;
+  while (true) {
+    attempts++;
+    try {
+      return {ok: true, value: await task(item), attempts};
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      if (attempts > retries || signal?.aborted || !isRetryable(error)) {
+        return {ok: false, error, attempts};
+      }
+      await sleep(retryDelayMs * 2 ** (attempts - 1), signal);
+    }
+  }
+}
+
+/**
+ * Runs `task` for every item, at most `concurrency` at a time, and resolves once all started
+ * items have settled. Outcomes are returned in item order; items that were never started
+ * because the batch was aborted are left out (their slots are empty).
+ */
+export async function runBatch<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  options: BatchOptions<T, R>
+): Promise<BatchOutcome<R>[]> {
+  const outcomes: BatchOutcome<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !options.signal?.aborted) {
+      const index = next++;
+      const outcome = await attempt(items[index], task, options);
+      outcomes[index] = outcome;
+      options.onSettled?.(items[index], outcome, index);
+    }
+  };
+  await Promise.all(Array.from({length: Math.max(1, Math.min(options.concurrency, items.length))}, worker));
+  return outcomes;
+}
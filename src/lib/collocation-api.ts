@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Client for the JSON collocations endpoint (browser only).
+ *
+ * Used where many analyses run side by side: unlike server actions, which Next.js runs one
+ * at a time per client, these requests run concurrently and can be aborted.
+ */
+
+import type {AnalyzeCollocationsInput, AnalyzeCollocationsOutput} from '@/ai/flows/analyze-collocations';
+import type {ApiError} from '@/app/api/errors';
+
+const COLLOCATIONS_URL = '/api/collocations';
+
+/**
+ * A request the server answered with an error; `status` is its HTTP status.
+ */
+export class CollocationApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'CollocationApiError';
+  }
+}
+
+/**
+ * Whether a failed request may succeed if made again. Network failures and server errors
+ * may; input the server rejected (a 4xx answer) is rejected again.
+ */
+export function isTransientError(error: Error): boolean {
+  return !(error instanceof CollocationApiError) || error.status >= 500;
+}
+
+/**
+ * Runs one collocation analysis. Rejects with a CollocationApiError carrying the server's
+ * error message, or with an AbortError if `signal` is aborted.
+ */
+export async function fetchCollocations(
+  input: AnalyzeCollocationsInput,
+  {refresh, verifyAgainst, signal}: {refresh?: boolean; verifyAgainst?: string; signal?: AbortSignal} = {}
+): Promise<AnalyzeCollocationsOutput> {
+  const params = new URLSearchParams({word: input.word});
+  const optional: Record<string, string | number | boolean | undefined> = {
+    matchLemma: input.matchLemma,
+    language: input.language,
+    corpus: input.corpus,
+    left: input.span?.left,
+    right: input.span?.right,
+    refresh,
+    verifyAgainst,
+  };
+  for (const [name, value] of Object.entries(optional)) {
+    if (value !== undefined) {
+      params.set(name, String(value));
+    }
+  }
+
+  const response = await fetch(`${COLLOCATIONS_URL}?${params}`, {signal});
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new CollocationApiError(
+      (body as ApiError | null)?.error?.message ?? `The server returned ${response.status}.`,
+      response.status
+    );
+  }
+  return body as AnalyzeCollocationsOutput;
+}
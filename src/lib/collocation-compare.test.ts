@@ -0,0 +1,40 @@
+import {describe, expect, it} from 'vitest';
+import type {Collocation} from '@/ai/flows/analyze-collocations';
+import {compareCollocations} from '@/lib/collocation-compare';
+
+const collocation = (lemma: string, frequency: number, logDice?: number): Collocation => ({
+  collocate: lemma,
+  lemma,
+  pos: 'N',
+  relation: 'modifies',
+  frequency,
+  exampleSentences: [],
+  source: logDice === undefined ? 'model' : 'corpus',
+  statistics: logDice === undefined
+    ? undefined
+    : {observed: frequency, expected: 1, mi: 0, mi3: 0, tScore: 0, logLikelihood: 0, dice: 0, logDice},
+});
+
+describe('compareCollocations', () => {
+  it('splits corpus collocates into shared and exclusive, ranked by logDice', () => {
+    const strong = [collocation('coffee', 9, 10), collocation('wind', 5, 8), collocation('support', 4, 7)];
+    const powerful = [collocation('engine', 6, 11), collocation('support', 3, 9), collocation('wind', 2, 6)];
+
+    const comparison = compareCollocations(strong, powerful);
+
+    expect(comparison.measure).toBe('logDice');
+    expect(comparison.shared.map(c => [c.lemma, c.difference])).toEqual([['wind', 2], ['support', -2]]);
+    expect(comparison.onlyA).toMatchObject([{lemma: 'coffee', scoreA: 10, scoreB: null, difference: 10}]);
+    expect(comparison.onlyB).toMatchObject([{lemma: 'engine', scoreA: null, scoreB: 11, difference: -11}]);
+  });
+
+  it('compares model estimates as shares of each node\'s total', () => {
+    const comparison = compareCollocations(
+      [collocation('coffee', 300), collocation('tea', 100)],
+      [collocation('coffee', 1), collocation('tea', 3)]
+    );
+
+    expect(comparison.measure).toBe('share');
+    expect(comparison.shared.map(c => [c.lemma, c.scoreA, c.scoreB])).toEqual([['coffee', 75, 25], ['tea', 25, 75]]);
+  });
+});
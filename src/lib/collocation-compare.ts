@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Contrasts the collocates of two node words (e.g. "strong" vs "powerful"):
+ * which collocates they share, which are exclusive to either, and how strongly each node
+ * attracts them.
+ */
+
+import type {Collocation} from '@/ai/flows/analyze-collocations';
+import type {PosTag} from '@/lib/corpus/pos';
+
+/**
+ * How collocates are scored. Corpus results are compared by logDice, which does not depend
+ * on corpus or node frequency. Model results only have estimated frequencies, whose scale
+ * varies from answer to answer, so they are compared as a percentage of each node's total.
+ */
+export type ComparisonMeasure = 'logDice' | 'share';
+
+export interface ComparedCollocate {
+  collocate: string;
+  lemma: string;
+  pos: PosTag;
+  /** Score with the first node, or null if it is not a collocate of the first node. */
+  scoreA: number | null;
+  /** Score with the second node, or null if it is not a collocate of the second node. */
+  scoreB: number | null;
+  /** scoreA - scoreB, counting a missing score as 0: positive leans to the first node. */
+  difference: number;
+}
+
+export interface CollocationComparison {
+  measure: ComparisonMeasure;
+  /** Collocates of both nodes, from most typical of the first to most typical of the second. */
+  shared: ComparedCollocate[];
+  /** Collocates of the first node only, strongest first. */
+  onlyA: ComparedCollocate[];
+  /** Collocates of the second node only, strongest first. */
+  onlyB: ComparedCollocate[];
+}
+
+// Forms of one lemma count as one collocate, but a noun and a verb of the same spelling do not.
+const keyOf = (collocation: Collocation) => `${collocation.lemma.toLowerCase()}_${collocation.pos}`;
+
+function scoresBy(collocations: Collocation[], measure: ComparisonMeasure): Map<string, {collocation: Collocation; score: number}> {
+  const total = collocations.reduce((sum, collocation) => sum + collocation.frequency, 0);
+  const scores = new Map<string, {collocation: Collocation; score: number}>();
+  for (const collocation of collocations) {
+    const score = measure === 'logDice'
+      ? collocation.statistics!.logDice
+      : total > 0 ? (collocation.frequency / total) * 100 : 0;
+    const key = keyOf(collocation);
+    const existing = scores.get(key);
+    if (existing) {
+      existing.score = measure === 'logDice' ? Math.max(existing.score, score) : existing.score + score;
+    } else {
+      scores.set(key, {collocation, score});
+    }
+  }
+  return scores;
+}
+
+/**
+ * Compares the collocates of two nodes. Both lists should come from the same source and
+ * settings; logDice is used only when every collocate has association measures.
+ */
+export function compareCollocations(a: Collocation[], b: Collocation[]): CollocationComparison {
+  const measure: ComparisonMeasure = [...a, ...b].every(collocation => collocation.statistics) ? 'logDice' : 'share';
+  const scoresA = scoresBy(a, measure);
+  const scoresB = scoresBy(b, measure);
+
+  const comparison: CollocationComparison = {measure, shared: [], onlyA: [], onlyB: []};
+  for (const key of new Set([...scoresA.keys(), ...scoresB.keys()])) {
+    const inA = scoresA.get(key);
+    const inB = scoresB.get(key);
+    const {collocate, lemma, pos} = (inA ?? inB)!.collocation;
+    const compared: ComparedCollocate = {
+      collocate,
+      lemma,
+      pos,
+      scoreA: inA?.score ?? null,
+      scoreB: inB?.score ?? null,
+      difference: (inA?.score ?? 0) - (inB?.score ?? 0),
+    };
+    (inA && inB ? comparison.shared : inA ? comparison.onlyA : comparison.onlyB).push(compared);
+  }
+  comparison.shared.sort((x, y) => y.difference - x.difference);
+  comparison.onlyA.sort((x, y) => y.scoreA! - x.scoreA!);
+  comparison.onlyB.sort((x, y) => y.scoreB! - x.scoreB!);
+  return comparison;
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Serializes collocation results to CSV, TSV, JSON and .xlsx.
+ */
+
+import type {AnalyzeCollocationsOutput} from '@/ai/flows/analyze-collocations';
+import {toDelimited, type Cell} from '@/lib/export';
+import {toXlsx} from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'xlsx';
+
+/** The results for one node word, as shown on the page. */
+export interface CollocationResultSet {
+  node: string;
+  corpus?: string;
+  collocations: AnalyzeCollocationsOutput['collocations'];
+}
+
+const HEADER = [
+  'Node',
+  'Collocate',
+  'Lemma',
+  'POS',
+  'Relation',
+  'Frequency',
+  'Source',
+  'Observed',
+  'Expected',
+  'MI',
+  'MI3',
+  't-score',
+  'Log-likelihood',
+  'Dice',
+  'logDice',
+  'Range',
+  "Juilland's D",
+  'Example sentences',
+];
+
+function rowsFor({node, collocations}: CollocationResultSet): Cell[][] {
+  return collocations.map(collocation => [
+    node,
+    collocation.collocate,
+    collocation.lemma,
+    collocation.pos,
+    collocation.relation,
+    collocation.frequency,
+    collocation.source,
+    collocation.statistics?.observed,
+    collocation.statistics?.expected,
+    collocation.statistics?.mi,
+    collocation.statistics?.mi3,
+    collocation.statistics?.tScore,
+    collocation.statistics?.logLikelihood,
+    collocation.statistics?.dice,
+    collocation.statistics?.logDice,
+    collocation.dispersion?.range,
+    collocation.dispersion?.juillandD,
+    collocation.exampleSentences.join(' | '),
+  ]);
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Serializes one or more result sets. Delimited formats put every node in one table;
+ * the workbook gets one sheet per node word.
+ */
+export function exportCollocations(
+  resultSets: CollocationResultSet[],
+  format: ExportFormat
+): {content: string | Uint8Array; mimeType: string} {
+  let content: string | Uint8Array;
+  switch (format) {
+    case 'csv':
+    case 'tsv':
+      content = toDelimited(HEADER, resultSets.flatMap(rowsFor), format === 'csv' ? ',' : '\t');
+      break;
+    case 'json':
+      content = JSON.stringify(resultSets, null, 2);
+      break;
+    case 'xlsx':
+      content = toXlsx(resultSets.map(set => ({name: set.node, header: HEADER, rows: rowsFor(set)})));
+      break;
+  }
+  return {content, mimeType: MIME_TYPES[format]};
+}
@@ -0,0 +1,59 @@
+import {describe, expect, it} from 'vitest';
+import type {Collocation} from '@/ai/flows/analyze-collocations';
+import {createNetwork, expandNetwork, MAX_COLLOCATES_PER_NODE} from '@/lib/collocation-network';
+
+const collocation = (lemma: string, frequency: number): Collocation => ({
+  collocate: lemma,
+  lemma,
+  pos: 'N',
+  relation: 'other',
+  frequency,
+  exampleSentences: [],
+  source: 'model',
+});
+
+const distance = (network: ReturnType<typeof createNetwork>, id: string) => {
+  const node = network.nodes.find(candidate => candidate.id === id)!;
+  return Math.hypot(node.x, node.y);
+};
+
+describe('collocation network', () => {
+  it('pins the word in the centre and draws stronger collocates closer', () => {
+    const network = createNetwork('make_V', [collocation('decision', 90), collocation('sense', 50), collocation('mess', 10)]);
+
+    expect(network.nodes[0]).toMatchObject({id: 'make', label: 'make_V', depth: 0, expanded: true, x: 0, y: 0});
+    const [strongest, middle, weakest] = network.links.map(link => link.strength);
+    expect(strongest).toBe(1);
+    expect(middle).toBeCloseTo(0.6);
+    expect(weakest).toBeCloseTo(0.2);
+    expect(distance(network, 'decision')).toBeLessThan(distance(network, 'mess'));
+  });
+
+  it('keeps only the strongest collocates of each node', () => {
+    const many = Array.from({length: MAX_COLLOCATES_PER_NODE + 5}, (_, i) => collocation(`word${i}`, 100 - i));
+
+    expect(createNetwork('strong', many).links).toHaveLength(MAX_COLLOCATES_PER_NODE);
+  });
+
+  it('links collocates already in the network instead of adding them again', () => {
+    const network = createNetwork('decision', [collocation('make', 90), collocation('difficult', 40)]);
+    const expanded = expandNetwork(network, 'make', [
+      collocation('decision', 90),
+      collocation('difficult', 30),
+      collocation('mistake', 20),
+    ]);
+
+    expect(expanded.nodes.map(node => [node.id, node.depth, node.expanded])).toEqual([
+      ['decision', 0, true],
+      ['make', 1, true],
+      ['difficult', 1, false],
+      ['mistake', 2, false],
+    ]);
+    expect(expanded.links.map(link => `${link.source}-${link.target}`)).toEqual([
+      'decision-make',
+      'decision-difficult',
+      'make-difficult',
+      'make-mistake',
+    ]);
+  });
+});
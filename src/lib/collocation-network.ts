@@ -0,0 +1,164 @@
+/**
+ * @fileOverview A network of node words and their collocates, laid out by a small
+ * force-directed simulation: the searched word is pinned in the centre and each collocate's
+ * link is shorter the stronger its association.
+ */
+
+import type {Collocation} from '@/ai/flows/analyze-collocations';
+
+export interface NetworkNode {
+  /** Lower-cased lemma; a word reached from several nodes is one node. */
+  id: string;
+  label: string;
+  /** 0 for the searched word, 1 for its collocates, 2 for theirs, and so on. */
+  depth: number;
+  /** Whether this node's own collocates have been added. */
+  expanded: boolean;
+  x: number;
+  y: number;
+}
+
+export interface NetworkLink {
+  source: string;
+  target: string;
+  /** Association strength relative to the source's other collocates, from 0.2 to 1. */
+  strength: number;
+}
+
+export interface CollocationNetwork {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+}
+
+// Only the strongest collocates of each node are drawn, to keep the graph readable.
+export const MAX_COLLOCATES_PER_NODE = 15;
+
+const MIN_LINK_LENGTH = 60;
+const MAX_LINK_LENGTH = 180;
+const MIN_STRENGTH = 0.2;
+const REPULSION = 8000;
+const SPRING = 0.05;
+const GRAVITY = 0.01;
+const DAMPING = 0.6;
+// Spreads new nodes evenly around their parent.
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+const nodeId = (word: string) => word.replace(/_[A-Z]+$/, '').toLowerCase();
+const linkLength = (link: NetworkLink) => MIN_LINK_LENGTH + (1 - link.strength) * (MAX_LINK_LENGTH - MIN_LINK_LENGTH);
+
+/**
+ * Scores the strongest collocates: by logDice when every one has association measures,
+ * otherwise by frequency. Scores are scaled so the strongest is 1 and the weakest MIN_STRENGTH.
+ */
+function strengths(collocations: Collocation[]): {collocation: Collocation; strength: number}[] {
+  const byLogDice = collocations.every(collocation => collocation.statistics);
+  const scored = collocations
+    .map(collocation => ({collocation, score: byLogDice ? collocation.statistics!.logDice : collocation.frequency}))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_COLLOCATES_PER_NODE);
+  const max = scored[0]?.score ?? 0;
+  const min = scored[scored.length - 1]?.score ?? 0;
+  return scored.map(({collocation, score}) => ({
+    collocation,
+    strength: max > min ? MIN_STRENGTH + ((score - min) / (max - min)) * (1 - MIN_STRENGTH) : 1,
+  }));
+}
+
+/**
+ * Adds the collocates of a node to the network and marks it expanded. Returns a new network;
+ * collocates already in it are linked rather than duplicated.
+ */
+export function expandNetwork(network: CollocationNetwork, id: string, collocations: Collocation[]): CollocationNetwork {
+  const parent = network.nodes.find(node => node.id === id);
+  if (!parent) {
+    throw new Error(`"${id}" is not in the network.`);
+  }
+  const nodes = network.nodes.map(node => (node.id === id ? {...node, expanded: true} : node));
+  const links = [...network.links];
+  const known = new Set(nodes.map(node => node.id));
+  const linked = new Set(links.map(link => [link.source, link.target].sort().join('\n')));
+
+  strengths(collocations).forEach(({collocation, strength}, index) => {
+    const target = nodeId(collocation.lemma);
+    const key = [id, target].sort().join('\n');
+    if (target === id || linked.has(key)) {
+      return;
+    }
+    linked.add(key);
+    links.push({source: id, target, strength});
+    if (!known.has(target)) {
+      known.add(target);
+      const angle = index * GOLDEN_ANGLE;
+      const distance = linkLength({source: id, target, strength});
+      nodes.push({
+        id: target,
+        label: collocation.lemma,
+        depth: parent.depth + 1,
+        expanded: false,
+        x: parent.x + Math.cos(angle) * distance,
+        y: parent.y + Math.sin(angle) * distance,
+      });
+    }
+  });
+  return layoutNetwork({nodes, links});
+}
+
+/**
+ * Starts a network from the searched word and its collocates.
+ */
+export function createNetwork(word: string, collocations: Collocation[]): CollocationNetwork {
+  const root: NetworkNode = {id: nodeId(word), label: word, depth: 0, expanded: false, x: 0, y: 0};
+  return expandNetwork({nodes: [root], links: []}, root.id, collocations);
+}
+
+/**
+ * Runs the simulation from the current positions: nodes repel each other, links pull
+ * towards their length and a weak gravity keeps the graph together. The searched word
+ * stays at the origin. Returns a new network with the settled positions.
+ */
+export function layoutNetwork(network: CollocationNetwork, iterations = 300): CollocationNetwork {
+  const nodes = network.nodes.map(node => ({...node, vx: 0, vy: 0}));
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+
+  for (let step = 0; step < iterations; step++) {
+    const alpha = 1 - step / iterations;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        const dx = b.x - a.x || 0.01;
+        const dy = b.y - a.y || 0.01;
+        const distanceSquared = Math.max(dx * dx + dy * dy, 1);
+        const force = REPULSION / distanceSquared;
+        const distance = Math.sqrt(distanceSquared);
+        a.vx -= (dx / distance) * force;
+        a.vy -= (dy / distance) * force;
+        b.vx += (dx / distance) * force;
+        b.vy += (dy / distance) * force;
+      }
+    }
+    for (const link of network.links) {
+      const a = nodes[index.get(link.source)!];
+      const b = nodes[index.get(link.target)!];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = (distance - linkLength(link)) * SPRING;
+      a.vx += (dx / distance) * force;
+      a.vy += (dy / distance) * force;
+      b.vx -= (dx / distance) * force;
+      b.vy -= (dy / distance) * force;
+    }
+    for (const node of nodes) {
+      if (node.depth === 0) {
+        node.vx = node.vy = node.x = node.y = 0;
+        continue;
+      }
+      node.vx = (node.vx - node.x * GRAVITY) * DAMPING;
+      node.vy = (node.vy - node.y * GRAVITY) * DAMPING;
+      node.x += node.vx * alpha;
+      node.y += node.vy * alpha;
+    }
+  }
+  return {nodes: nodes.map(({vx, vy, ...node}) => node), links: network.links};
+}
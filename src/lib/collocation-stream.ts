@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Client for the streaming collocations endpoint (browser only).
+ */
+
+import type {AnalyzeCollocationsOutput, Collocation} from '@/ai/flows/analyze-collocations';
+import type {StreamCollocationsRequest} from '@/app/api/collocations/stream/route';
+import type {ApiError} from '@/app/api/errors';
+
+const STREAM_URL = '/api/collocations/stream';
+const EVENT_DELIMITER = '\n\n';
+
+type StreamEvent =
+  | {message: Collocation}
+  | {result: AnalyzeCollocationsOutput}
+  | ApiError;
+
+/**
+ * Runs a collocation analysis, calling `onCollocation` for each collocate as it arrives.
+ * Resolves with the full output; rejects with an AbortError if `signal` is aborted.
+ */
+export async function streamCollocations(
+  request: StreamCollocationsRequest,
+  {onCollocation, signal}: {onCollocation: (collocation: Collocation) => void; signal?: AbortSignal}
+): Promise<AnalyzeCollocationsOutput> {
+  const response = await fetch(STREAM_URL, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json', Accept: 'text/event-stream'},
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message ?? `The server returned ${response.status}.`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const {value, done} = await reader.read();
+    if (done) {
+      throw new Error('The connection closed before the analysis finished.');
+    }
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf(EVENT_DELIMITER)) !== -1) {
+      const event = JSON.parse(buffer.slice(0, end).replace(/^data: /, '')) as StreamEvent;
+      buffer = buffer.slice(end + EVENT_DELIMITER.length);
+      if ('message' in event) {
+        onCollocation(event.message);
+      } else if ('result' in event) {
+        reader.cancel().catch(() => {});
+        return event.result;
+      } else {
+        throw new Error(event.error.message);
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import {describe, expect, it} from 'vitest';
+import {createAnnotator, type SentenceAnnotation} from '@/lib/corpus/annotate';
+
+// The highlighted text rather than raw offsets, for readable expectations.
+const words = (sentence: string, annotation: SentenceAnnotation) => ({
+  node: annotation.node.map(span => sentence.slice(span.start, span.end)),
+  collocate: annotation.collocate.map(span => sentence.slice(span.start, span.end)),
+  distance: annotation.distance,
+});
+
+describe('createAnnotator', () => {
+  it('finds inflected forms and measures the distance from the node', () => {
+    const annotate = createAnnotator('make_V');
+
+    const after = 'She made a quick decision.';
+    expect(words(after, annotate(after, {collocate: 'decision'}))).toEqual({
+      node: ['made'],
+      collocate: ['decision'],
+      distance: 3,
+    });
+    const before = 'Decisions are made daily.';
+    expect(words(before, annotate(before, {collocate: 'decisions', lemma: 'decision'}))).toEqual({
+      node: ['made'],
+      collocate: ['Decisions'],
+      distance: -2,
+    });
+  });
+
+  it('finds split collocates next to the nearest occurrence of the node', () => {
+    const annotate = createAnnotator('take');
+    const sentence = 'We took a break, then took the cost into account.';
+
+    const annotation = annotate(sentence, {collocate: 'into account'});
+
+    expect(words(sentence, annotation)).toEqual({node: ['took'], collocate: ['into', 'account'], distance: 3});
+    expect(annotation.node[0].start).toBe(sentence.lastIndexOf('took'));
+  });
+
+  it('matches a shared stem in languages without a lemmatizer', () => {
+    const annotate = createAnnotator('fuerte', 'es');
+    const sentence = 'Los vientos fuertes soplan.';
+
+    expect(words(sentence, annotate(sentence, {collocate: 'viento'}))).toEqual({
+      node: ['fuertes'],
+      collocate: ['vientos'],
+      distance: -1,
+    });
+  });
+
+  it('leaves the distance out when either word is missing', () => {
+    const annotate = createAnnotator('strong');
+
+    expect(annotate('A strong wind.', {collocate: 'coffee'})).toEqual({node: [{start: 2, end: 8}], collocate: [], distance: null});
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @fileOverview Locates the node and a collocate in example sentences and returns their
+ * character offsets, so views can highlight them (server-side only: it uses the tagger).
+ *
+ * Words match by form or lemma ("made" for make), falling back to a shared stem in languages
+ * the tagger does not lemmatize ("fuertes" for fuerte). The words of a multi-word node or
+ * collocate need not be adjacent ("take the matter into account").
+ */
+
+import {analyzeSentence} from '@/lib/corpus/ingest';
+import {DEFAULT_LANGUAGE, type Language} from '@/lib/corpus/language';
+import {parseNodeQuery} from '@/lib/corpus/pos';
+import {tokenizeWithOffsets} from '@/lib/corpus/tokenize';
+
+export interface TextSpan {
+  /** Offset of the first character in the sentence. */
+  start: number;
+  /** Offset just past the last character in the sentence. */
+  end: number;
+}
+
+export interface SentenceAnnotation {
+  /** Where the node's words are; empty if it was not found. */
+  node: TextSpan[];
+  /** Where the collocate's words are, in sentence order; empty if it was not found. */
+  collocate: TextSpan[];
+  /**
+   * Words from the node to the nearest word of the collocate: negative to the left (L),
+   * positive to the right (R). Null unless both were found.
+   */
+  distance: number | null;
+}
+
+export interface CollocateToAnnotate {
+  collocate: string;
+  lemma?: string;
+}
+
+// Forms a word may take: its own form and lemma, and the lemma it was given
+type WordPattern = Set<string>;
+
+interface AnalyzedText {
+  spans: TextSpan[];
+  tokens: string[];
+  lemmas: string[];
+}
+
+// Inflections are taken to keep all but the last STEM_SLACK characters of the longer form.
+const STEM_SLACK = 2;
+const MIN_STEM_LENGTH = 3;
+
+function analyze(text: string, language: Language): AnalyzedText {
+  const {tokens, lemmas} = analyzeSentence(text, language);
+  return {spans: tokenizeWithOffsets(text, language).map(({start, end}) => ({start, end})), tokens, lemmas};
+}
+
+function wordPatterns(phrase: string, lemma: string | undefined, language: Language): WordPattern[] {
+  const words = analyzeSentence(phrase, language);
+  const lemmas = lemma ? analyzeSentence(lemma, language).tokens : [];
+  return words.tokens.map((token, i) => new Set([token, words.lemmas[i], lemmas[i]].filter(Boolean)));
+}
+
+function sharesStem(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length) - STEM_SLACK;
+  return length >= MIN_STEM_LENGTH && a.slice(0, length) === b.slice(0, length);
+}
+
+/**
+ * Token indices a word could be at: those matching its form or lemma or, only when there
+ * are none, those sharing its stem.
+ */
+function candidates(sentence: AnalyzedText, pattern: WordPattern): number[] {
+  const indices = sentence.tokens.map((_, i) => i);
+  const exact = indices.filter(i => pattern.has(sentence.tokens[i]) || pattern.has(sentence.lemmas[i]));
+  if (exact.length > 0) {
+    return exact;
+  }
+  return indices.filter(i => Array.from(pattern).some(word => sharesStem(word, sentence.tokens[i])));
+}
+
+/**
+ * Places the collocate's words as close to the node as possible, each at a token not
+ * already taken. Words that cannot be placed are left out.
+ */
+function placeCollocate(matches: number[][], node: number[]): number[] {
+  const taken = new Set(node);
+  const first = node[0];
+  const last = node[node.length - 1];
+  const distanceTo = (i: number) => (i < first ? first - i : i > last ? i - last : 0);
+  const placed: number[] = [];
+  for (const indices of matches) {
+    const nearest = indices
+      .filter(i => !taken.has(i))
+      .sort((a, b) => distanceTo(a) - distanceTo(b))[0];
+    if (nearest !== undefined) {
+      taken.add(nearest);
+      placed.push(nearest);
+    }
+  }
+  return placed.sort((a, b) => a - b);
+}
+
+/**
+ * Returns a function that annotates sentences with where `node` (a search such as `strong`
+ * or `make_V`) and a collocate of it are. When the node occurs more than once, the
+ * occurrence nearest to the collocate is chosen.
+ */
+export function createAnnotator(
+  node: string,
+  language: Language = DEFAULT_LANGUAGE
+): (sentence: string, collocate: CollocateToAnnotate) => SentenceAnnotation {
+  const nodePatterns = wordPatterns(parseNodeQuery(node).word, undefined, language);
+
+  return (text, collocate) => {
+    const sentence = analyze(text, language);
+    const nodeMatches = nodePatterns.map(pattern => candidates(sentence, pattern));
+    const collocateMatches = wordPatterns(collocate.collocate, collocate.lemma, language).map(pattern =>
+      candidates(sentence, pattern)
+    );
+
+    // Each occurrence of the node's first word, followed by its other words in order
+    const occurrences = (nodeMatches[0] ?? []).flatMap(start => {
+      const occurrence = [start];
+      for (const indices of nodeMatches.slice(1)) {
+        const next = indices.find(i => i > occurrence[occurrence.length - 1]);
+        if (next === undefined) {
+          return [];
+        }
+        occurrence.push(next);
+      }
+      return [occurrence];
+    });
+    if (occurrences.length === 0) {
+      // Still point out the collocate, placed as if the node were at the start
+      const placed = placeCollocate(collocateMatches, [-1]);
+      return {node: [], collocate: placed.map(i => sentence.spans[i]), distance: null};
+    }
+
+    // Prefer the occurrence that places most of the collocate's words, then the closest one
+    const best = occurrences
+      .map(occurrence => {
+        const placed = placeCollocate(collocateMatches, occurrence);
+        const first = occurrence[0];
+        const last = occurrence[occurrence.length - 1];
+        const offsets = placed.map(i => (i < first ? i - first : i - last));
+        const distance = offsets.length > 0
+          ? offsets.reduce((nearest, offset) => (Math.abs(offset) < Math.abs(nearest) ? offset : nearest))
+          : null;
+        return {occurrence, placed, distance};
+      })
+      .sort(
+        (a, b) =>
+          b.placed.length - a.placed.length || Math.abs(a.distance ?? 0) - Math.abs(b.distance ?? 0)
+      )[0];
+    return {
+      node: best.occurrence.map(i => sentence.spans[i]),
+      collocate: best.placed.map(i => sentence.spans[i]),
+      distance: best.distance,
+    };
+  };
+}
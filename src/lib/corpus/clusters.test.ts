@@ -0,0 +1,28 @@
+import {describe, expect, it} from 'vitest';
+import {findClusters} from '@/lib/corpus/clusters';
+import {ingestFiles} from '@/lib/corpus/ingest';
+import {parseNodeQuery} from '@/lib/corpus/pos';
+
+const corpus = ingestFiles('clusters', [
+  {name: 'a.txt', data: new TextEncoder().encode('I take a break. I take a break now.')},
+  {name: 'b.txt', data: new TextEncoder().encode('We take a walk. Never take a break. Take it or take it.')},
+]);
+
+describe('findClusters', () => {
+  it('counts clusters containing the node with their frequency and range', () => {
+    expect(findClusters(corpus, parseNodeQuery('take'), {minLength: 3, maxLength: 3})).toEqual([
+      {cluster: 'take a break', length: 3, frequency: 3, range: 2},
+      {cluster: 'i take a', length: 3, frequency: 2, range: 1},
+    ]);
+  });
+
+  it('counts a cluster containing the node twice once', () => {
+    const clusters = findClusters(corpus, parseNodeQuery('take'), {minLength: 4, maxLength: 4, minFrequency: 1});
+
+    expect(clusters.find(cluster => cluster.cluster === 'take it or take')?.frequency).toBe(1);
+  });
+
+  it('finds nothing for a word the corpus lacks', () => {
+    expect(findClusters(corpus, parseNodeQuery('coffee'), {minFrequency: 1})).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Recurrent word clusters (n-grams) containing a node word, as in
+ * WordSmith's Clusters tool.
+ */
+
+import {matchesNode, type NodeQuery} from '@/lib/corpus/pos';
+import type {Corpus} from '@/lib/corpus/types';
+
+export interface ClusterOptions {
+  /** Shortest cluster length in words. */
+  minLength?: number;
+  /** Longest cluster length in words. */
+  maxLength?: number;
+  /** Clusters occurring fewer times than this are dropped. */
+  minFrequency?: number;
+  /** Maximum number of clusters returned. */
+  limit?: number;
+}
+
+export interface Cluster {
+  cluster: string;
+  length: number;
+  frequency: number;
+  /** Number of texts the cluster occurs in. */
+  range: number;
+}
+
+export const MIN_CLUSTER_LENGTH = 2;
+export const MAX_CLUSTER_LENGTH = 6;
+
+const DEFAULT_OPTIONS: Required<ClusterOptions> = {
+  minLength: 3,
+  maxLength: 4,
+  minFrequency: 2,
+  limit: 100,
+};
+
+/**
+ * Counts every n-gram (within a sentence) that contains the node, with its frequency and
+ * range across texts. Results are ordered by frequency, then range, then length.
+ */
+export function findClusters(corpus: Corpus, query: NodeQuery, options: ClusterOptions = {}): Cluster[] {
+  const minLength = Math.max(MIN_CLUSTER_LENGTH, options.minLength ?? DEFAULT_OPTIONS.minLength);
+  const maxLength = Math.min(MAX_CLUSTER_LENGTH, options.maxLength ?? DEFAULT_OPTIONS.maxLength);
+  const minFrequency = options.minFrequency ?? DEFAULT_OPTIONS.minFrequency;
+  const limit = options.limit ?? DEFAULT_OPTIONS.limit;
+  const frequencies = new Map<string, number>();
+  const texts = new Map<string, Set<string>>();
+
+  for (const text of corpus.texts) {
+    for (const sentence of text.sentences) {
+      const {tokens} = sentence;
+      // Keyed by "start:length" so an n-gram containing the node twice is counted once.
+      const seen = new Set<string>();
+      tokens.forEach((_, index) => {
+        if (!matchesNode(sentence, index, query)) {
+          return;
+        }
+        for (let length = minLength; length <= maxLength; length++) {
+          const firstStart = Math.max(0, index - length + 1);
+          const lastStart = Math.min(index, tokens.length - length);
+          for (let start = firstStart; start <= lastStart; start++) {
+            const position = `${start}:${length}`;
+            if (seen.has(position)) {
+              continue;
+            }
+            seen.add(position);
+            const cluster = tokens.slice(start, start + length).join(' ');
+            frequencies.set(cluster, (frequencies.get(cluster) ?? 0) + 1);
+            const inTexts = texts.get(cluster) ?? new Set<string>();
+            inTexts.add(text.name);
+            texts.set(cluster, inTexts);
+          }
+        }
+      });
+    }
+  }
+
+  return Array.from(frequencies, ([cluster, frequency]) => ({
+    cluster,
+    length: cluster.split(' ').length,
+    frequency,
+    range: texts.get(cluster)!.size,
+  }))
+    .filter(cluster => cluster.frequency >= minFrequency)
+    .sort((a, b) => b.frequency - a.frequency || b.range - a.range || b.length - a.length)
+    .slice(0, limit);
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileOverview Counts node/collocate co-occurrence in a corpus and ranks collocates.
+ *
+ * Collocates are told apart by part of speech ("light" the adjective and "light" the noun
+ * are separate rows), and are counted as lemmas when the node query is a lemma query.
+ */
+
+import {dispersionStatistics, textTokenCount, type DispersionStatistics} from '@/lib/corpus/dispersion';
+import {matchesNode, type NodeQuery, type PosTag} from '@/lib/corpus/pos';
+import {classifyRelation, dominantRelation, type Relation} from '@/lib/corpus/relations';
+import type {Corpus, CorpusSentence} from '@/lib/corpus/types';
+import {computeAssociationMeasures, type AssociationMeasures} from '@/lib/corpus/statistics';
+
+export interface CollocateOptions {
+  /** Tokens to the left of the node that count as co-occurrence. */
+  left?: number;
+  /** Tokens to the right of the node that count as co-occurrence. */
+  right?: number;
+  /** Collocates that co-occur fewer times than this are dropped. */
+  minFrequency?: number;
+  /** Maximum number of collocates returned. */
+  limit?: number;
+  /** Maximum number of example sentences kept per collocate. */
+  maxExamples?: number;
+}
+
+/** Co-occurrence counts per position; index 0 is L1/R1, index 1 is L2/R2, and so on. */
+export interface PositionalFrequencies {
+  left: number[];
+  right: number[];
+}
+
+export interface CollocateResult {
+  /** Word form, or lemma for lemma queries. */
+  collocate: string;
+  lemma: string;
+  pos: PosTag;
+  /** The grammatical relation most often linking the collocate to the node. */
+  relation: Relation;
+  measures: AssociationMeasures;
+  positions: PositionalFrequencies;
+  /** How evenly the co-occurrences are spread over the corpus texts. */
+  dispersion: DispersionStatistics;
+  exampleSentences: string[];
+}
+
+export interface CollocateAnalysis {
+  node: string;
+  nodeFrequency: number;
+  corpusSize: number;
+  collocates: CollocateResult[];
+}
+
+const DEFAULT_OPTIONS: Required<CollocateOptions> = {
+  left: 5,
+  right: 5,
+  minFrequency: 2,
+  limit: 20,
+  maxExamples: 3,
+};
+
+interface CollocateKey {
+  key: string;
+  collocate: string;
+  lemma: string;
+  pos: PosTag;
+}
+
+function collocateKey(sentence: CorpusSentence, index: number, byLemma: boolean): CollocateKey {
+  const lemma = sentence.lemmas[index];
+  const pos = sentence.tags[index];
+  const collocate = byLemma ? lemma : sentence.tokens[index];
+  return {key: `${collocate}_${pos}`, collocate, lemma, pos};
+}
+
+/**
+ * Finds the collocates of the queried node in `corpus` within a left/right window (never
+ * crossing sentence boundaries) and ranks them by logDice.
+ */
+export function findCollocates(
+  corpus: Corpus,
+  query: NodeQuery,
+  options: CollocateOptions = {}
+): CollocateAnalysis {
+  const {left, right, minFrequency, limit, maxExamples} = {...DEFAULT_OPTIONS, ...options};
+
+  const keys = new Map<string, CollocateKey>();
+  const wordFrequencies = new Map<string, number>();
+  const coOccurrences = new Map<string, number>();
+  const positions = new Map<string, PositionalFrequencies>();
+  const relations = new Map<string, Map<Relation, number>>();
+  // Co-occurrences per text, indexed like corpus.texts
+  const perText = new Map<string, number[]>();
+  const examples = new Map<string, string[]>();
+  let nodeFrequency = 0;
+
+  corpus.texts.forEach((text, textIndex) => {
+    for (const sentence of text.sentences) {
+      const {tokens} = sentence;
+      const sentenceKeys = tokens.map((_, index) => collocateKey(sentence, index, query.byLemma));
+      sentenceKeys.forEach((entry, index) => {
+        keys.set(entry.key, entry);
+        wordFrequencies.set(entry.key, (wordFrequencies.get(entry.key) ?? 0) + 1);
+        if (!matchesNode(sentence, index, query)) {
+          return;
+        }
+        nodeFrequency++;
+        const start = Math.max(0, index - left);
+        const end = Math.min(tokens.length - 1, index + right);
+        for (let i = start; i <= end; i++) {
+          if (i === index) {
+            continue;
+          }
+          const collocate = sentenceKeys[i].key;
+          coOccurrences.set(collocate, (coOccurrences.get(collocate) ?? 0) + 1);
+          let counts = positions.get(collocate);
+          if (!counts) {
+            counts = {left: new Array(left).fill(0), right: new Array(right).fill(0)};
+            positions.set(collocate, counts);
+          }
+          if (i < index) {
+            counts.left[index - i - 1]++;
+          } else {
+            counts.right[i - index - 1]++;
+          }
+          const textCounts = perText.get(collocate) ?? new Array(corpus.texts.length).fill(0);
+          textCounts[textIndex]++;
+          perText.set(collocate, textCounts);
+          const relation = classifyRelation(sentence, index, i);
+          const relationCounts = relations.get(collocate) ?? new Map<Relation, number>();
+          relationCounts.set(relation, (relationCounts.get(relation) ?? 0) + 1);
+          relations.set(collocate, relationCounts);
+          const kept = examples.get(collocate) ?? [];
+          if (kept.length < maxExamples && !kept.includes(sentence.text)) {
+            kept.push(sentence.text);
+            examples.set(collocate, kept);
+          }
+        }
+      });
+    }
+  });
+
+  const textSizes = corpus.texts.map(textTokenCount);
+  const collocates = Array.from(coOccurrences, ([key, coOccurrence]) => {
+    const {collocate, lemma, pos} = keys.get(key)!;
+    return {
+      collocate,
+      lemma,
+      pos,
+      relation: dominantRelation(relations.get(key)!),
+      measures: computeAssociationMeasures({
+        nodeFrequency,
+        collocateFrequency: wordFrequencies.get(key) ?? 0,
+        coOccurrence,
+        corpusSize: corpus.tokenCount,
+        span: left + right,
+      }),
+      positions: positions.get(key)!,
+      dispersion: dispersionStatistics(perText.get(key)!, textSizes),
+      exampleSentences: examples.get(key) ?? [],
+    };
+  })
+    .filter(result => result.measures.observed >= minFrequency)
+    .sort((a, b) => b.measures.logDice - a.measures.logDice || b.measures.observed - a.measures.observed)
+    .slice(0, limit);
+
+  return {node: query.word, nodeFrequency, corpusSize: corpus.tokenCount, collocates};
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileOverview Keyword-in-context (KWIC) concordance lines for a node word.
+ */
+
+import {matchesNode, type NodeQuery} from '@/lib/corpus/pos';
+import {tokenizeWithOffsets} from '@/lib/corpus/tokenize';
+import type {Corpus} from '@/lib/corpus/types';
+
+export const CONCORDANCE_SORT_KEYS = ['text', 'L3', 'L2', 'L1', 'R1', 'R2', 'R3'] as const;
+export type ConcordanceSortKey = (typeof CONCORDANCE_SORT_KEYS)[number];
+
+export interface ConcordanceLine {
+  /** Name of the text the hit comes from. */
+  textName: string;
+  /** Sentence text to the left of the node. */
+  left: string;
+  /** The node as written. */
+  node: string;
+  /** Sentence text to the right of the node. */
+  right: string;
+  /** Lowercased words at L1, L2, ... (nearest first). */
+  leftWords: string[];
+  /** Lowercased words at R1, R2, ... (nearest first). */
+  rightWords: string[];
+}
+
+export interface ConcordancePage {
+  total: number;
+  lines: ConcordanceLine[];
+}
+
+/**
+ * Lists every occurrence of the queried node in the corpus, in corpus order.
+ */
+export function findConcordanceLines(corpus: Corpus, query: NodeQuery): ConcordanceLine[] {
+  const lines: ConcordanceLine[] = [];
+
+  for (const text of corpus.texts) {
+    for (const sentence of text.sentences) {
+      if (!sentence.tokens.some((_, index) => matchesNode(sentence, index, query))) {
+        continue;
+      }
+      const spans = tokenizeWithOffsets(sentence.text, corpus.language);
+      const words = spans.map(span => span.form.toLowerCase());
+      spans.forEach((span, index) => {
+        if (!matchesNode(sentence, index, query)) {
+          return;
+        }
+        lines.push({
+          textName: text.name,
+          left: sentence.text.slice(0, span.start),
+          node: span.form,
+          right: sentence.text.slice(span.end),
+          leftWords: words.slice(0, index).reverse(),
+          rightWords: words.slice(index + 1),
+        });
+      });
+    }
+  }
+
+  return lines;
+}
+
+function wordAt(line: ConcordanceLine, key: ConcordanceSortKey): string {
+  const position = Number(key.slice(1)) - 1;
+  return (key[0] === 'L' ? line.leftWords : line.rightWords)[position] ?? '';
+}
+
+/**
+ * Sorts concordance lines by the word at a context position (WordSmith-style), breaking
+ * ties on the right context and then the left context. 'text' keeps corpus order.
+ */
+export function sortConcordanceLines(
+  lines: ConcordanceLine[],
+  key: ConcordanceSortKey
+): ConcordanceLine[] {
+  if (key === 'text') {
+    return lines;
+  }
+  return [...lines].sort(
+    (a, b) =>
+      wordAt(a, key).localeCompare(wordAt(b, key)) ||
+      a.rightWords.join(' ').localeCompare(b.rightWords.join(' ')) ||
+      a.leftWords.join(' ').localeCompare(b.leftWords.join(' '))
+  );
+}
+
+/**
+ * Returns one page of sorted concordance lines together with the total hit count.
+ */
+export function getConcordancePage(
+  corpus: Corpus,
+  query: NodeQuery,
+  {sortBy = 'text', page = 0, pageSize = 50}: {sortBy?: ConcordanceSortKey; page?: number; pageSize?: number} = {}
+): ConcordancePage {
+  const lines = sortConcordanceLines(findConcordanceLines(corpus, query), sortBy);
+  return {
+    total: lines.length,
+    lines: lines.slice(page * pageSize, (page + 1) * pageSize),
+  };
+}
@@ -0,0 +1,50 @@
+import {describe, expect, it} from 'vitest';
+import {dispersionStatistics, findDispersion, juillandD} from '@/lib/corpus/dispersion';
+import {ingestFiles} from '@/lib/corpus/ingest';
+import {parseNodeQuery} from '@/lib/corpus/pos';
+
+describe('juillandD', () => {
+  it('is 1 minus the coefficient of variation of relative frequencies over sqrt(n - 1)', () => {
+    // Relative frequencies 0.02, 0.02 and 0: mean 0.0133, population SD 0.0094, CV 0.7071
+    expect(juillandD([2, 4, 0], [100, 200, 100])).toBeCloseTo(0.5, 10);
+  });
+
+  it('is 1 for an even spread and 0 for a word in one part only', () => {
+    expect(juillandD([3, 6], [100, 200])).toBeCloseTo(1, 10);
+    expect(juillandD([5, 0, 0], [100, 100, 100])).toBeCloseTo(0, 10);
+  });
+
+  it('handles absent words and single-part corpora', () => {
+    expect(juillandD([0, 0], [100, 100])).toBe(0);
+    expect(juillandD([4], [100])).toBeNull();
+    // An empty part counts as a relative frequency of 0
+    expect(juillandD([2, 0], [100, 0])).toBeCloseTo(0, 10);
+  });
+});
+
+describe('dispersionStatistics', () => {
+  it('counts the parts the word occurs in', () => {
+    expect(dispersionStatistics([2, 0, 1], [100, 100, 100]).range).toBe(2);
+    expect(dispersionStatistics([0, 0], [100, 100])).toEqual({range: 0, juillandD: 0});
+  });
+});
+
+describe('findDispersion', () => {
+  it('places each hit within its text', () => {
+    const corpus = ingestFiles('dispersion', [
+      {name: 'a.txt', data: new TextEncoder().encode('Wind and rain. More wind.')},
+      {name: 'b.txt', data: new TextEncoder().encode('No weather today.')},
+    ]);
+
+    const dispersion = findDispersion(corpus, parseNodeQuery('wind'));
+
+    expect(dispersion.frequency).toBe(2);
+    expect(dispersion.range).toBe(1);
+    // Tokens 0 and 4 of the five in a.txt
+    expect(dispersion.texts).toEqual([
+      {name: 'a.txt', tokenCount: 5, hits: [0, 1]},
+      {name: 'b.txt', tokenCount: 3, hits: []},
+    ]);
+    expect(dispersion.juillandD).toBeCloseTo(0, 10);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileOverview How evenly a word is spread over the texts of a corpus.
+ *
+ * - juillandD - Juilland's D over per-text relative frequencies.
+ * - findDispersion - Every hit of a node, positioned within its text, for dispersion plots.
+ */
+
+import {matchesNode, type NodeQuery} from '@/lib/corpus/pos';
+import type {Corpus, CorpusText} from '@/lib/corpus/types';
+
+export interface DispersionStatistics {
+  /** Number of texts the word occurs in. */
+  range: number;
+  /** Juilland's D (0 = all in one text, 1 = perfectly even); null for single-text corpora. */
+  juillandD: number | null;
+}
+
+export interface TextDispersion {
+  name: string;
+  tokenCount: number;
+  /** Token offsets of each hit, as a fraction (0..1) of the way through the text. */
+  hits: number[];
+}
+
+export interface DispersionAnalysis extends DispersionStatistics {
+  frequency: number;
+  texts: TextDispersion[];
+}
+
+export function textTokenCount(text: CorpusText): number {
+  return text.sentences.reduce((sum, sentence) => sum + sentence.tokens.length, 0);
+}
+
+/**
+ * Juilland's D, treating each text as a corpus part. Frequencies are normalized by text size
+ * so that long texts do not dominate.
+ */
+export function juillandD(frequencies: number[], partSizes: number[]): number | null {
+  const n = frequencies.length;
+  if (n < 2) {
+    return null;
+  }
+  const relative = frequencies.map((frequency, i) => (partSizes[i] > 0 ? frequency / partSizes[i] : 0));
+  const mean = relative.reduce((sum, value) => sum + value, 0) / n;
+  if (mean === 0) {
+    return 0;
+  }
+  const sd = Math.sqrt(relative.reduce((sum, value) => sum + (value - mean) ** 2, 0) / n);
+  return Math.max(0, 1 - sd / mean / Math.sqrt(n - 1));
+}
+
+/**
+ * Range and Juilland's D for per-text frequencies of a word.
+ */
+export function dispersionStatistics(frequencies: number[], partSizes: number[]): DispersionStatistics {
+  return {
+    range: frequencies.filter(frequency => frequency > 0).length,
+    juillandD: juillandD(frequencies, partSizes),
+  };
+}
+
+/**
+ * Locates every hit of the queried node in every text of the corpus.
+ */
+export function findDispersion(corpus: Corpus, query: NodeQuery): DispersionAnalysis {
+  const texts = corpus.texts.map(text => {
+    const tokenCount = textTokenCount(text);
+    const hits: number[] = [];
+    let offset = 0;
+    for (const sentence of text.sentences) {
+      sentence.tokens.forEach((_, index) => {
+        if (matchesNode(sentence, index, query)) {
+          hits.push(tokenCount > 1 ? (offset + index) / (tokenCount - 1) : 0);
+        }
+      });
+      offset += sentence.tokens.length;
+    }
+    return {name: text.name, tokenCount, hits};
+  });
+
+  return {
+    frequency: texts.reduce((sum, text) => sum + text.hits.length, 0),
+    texts,
+    ...dispersionStatistics(
+      texts.map(text => text.hits.length),
+      texts.map(text => text.tokenCount)
+    ),
+  };
+}
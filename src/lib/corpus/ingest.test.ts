@@ -0,0 +1,28 @@
+import {strToU8, zipSync} from 'fflate';
+import {describe, expect, it} from 'vitest';
+import {expandUploads} from '@/lib/corpus/ingest';
+
+const archive = (files: Record<string, string>) =>
+  zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+
+describe('expandUploads', () => {
+  it('expands the .txt members of archives', () => {
+    const uploads = expandUploads([
+      {name: 'a.txt', data: strToU8('First.')},
+      {name: 'texts.zip', data: archive({'b.txt': 'Second.', 'notes.md': 'Skipped.', '__MACOSX/._b.txt': ''})},
+    ]);
+
+    expect(uploads.map(upload => upload.name)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('rejects archives that expand past the limit before decompressing them', () => {
+    const large = archive({'a.txt': 'x'.repeat(600), 'b.txt': 'y'.repeat(600)});
+
+    expect(() => expandUploads([{name: 'large.zip', data: large}], 1000)).toThrow(/"large.zip" expands to more than/);
+    // The limit covers all archives of an upload together
+    const small = archive({'a.txt': 'x'.repeat(600)});
+    expect(() => expandUploads([{name: 'one.zip', data: small}, {name: 'two.zip', data: small}], 1000)).toThrow(
+      /"two.zip"/
+    );
+  });
+});
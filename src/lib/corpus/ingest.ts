@@ -0,0 +1,140 @@
+/**
+ * @fileOverview Turns uploaded files (.txt or .zip of .txt) into a tokenized corpus.
+ *
+ * - decodeText - Decodes raw bytes, detecting BOMs and falling back to Windows-1252.
+ * - normalizeText - Normalizes line endings, Unicode form and stray control characters.
+ * - analyzeSentence - Tokenizes, tags and lemmatizes one sentence.
+ * - ingestFiles - Expands archives, then splits, analyzes and assembles a Corpus.
+ */
+
+import {unzipSync} from 'fflate';
+import {DEFAULT_LANGUAGE, type Language} from '@/lib/corpus/language';
+import type {PosTag} from '@/lib/corpus/pos';
+import {tagTokens} from '@/lib/corpus/tagger';
+import {splitSentences, tokenizeWithOffsets} from '@/lib/corpus/tokenize';
+import type {Corpus, CorpusSentence, CorpusText} from '@/lib/corpus/types';
+
+export interface UploadedFile {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Decodes a text file. UTF-8 and UTF-16 are recognised by their BOM; BOM-less input is
+ * read as UTF-8 when valid and as Windows-1252 (a superset of Latin-1) otherwise.
+ */
+export function decodeText(data: Uint8Array): string {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(data.subarray(3));
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(data.subarray(2));
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(data.subarray(2));
+  }
+  try {
+    return new TextDecoder('utf-8', {fatal: true}).decode(data);
+  } catch {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+}
+
+/**
+ * Normalizes line endings to \n, applies NFC, and removes control characters other than
+ * tabs and newlines.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .normalize('NFC')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\ufeff]/g, '');
+}
+
+function isTextFile(name: string): boolean {
+  return name.toLowerCase().endsWith('.txt');
+}
+
+function isZipFile(name: string): boolean {
+  return name.toLowerCase().endsWith('.zip');
+}
+
+// Skip directory entries and the metadata macOS adds to archives.
+function isIgnoredArchiveEntry(path: string): boolean {
+  return path.endsWith('/') || path.startsWith('__MACOSX/') || path.split('/').pop()!.startsWith('.');
+}
+
+// Most text all the archives of one upload may expand to, so that a small, highly compressed
+// archive ("zip bomb") cannot exhaust the server's memory.
+export const MAX_EXTRACTED_BYTES = 250 * 1024 * 1024;
+
+/**
+ * Expands .zip archives into their .txt members; other non-.txt files are rejected. Archives
+ * that would expand to more than `maxExtractedBytes` in total are rejected before any entry
+ * is decompressed.
+ */
+export function expandUploads(files: UploadedFile[], maxExtractedBytes = MAX_EXTRACTED_BYTES): UploadedFile[] {
+  let extracted = 0;
+  return files.flatMap(file => {
+    if (isTextFile(file.name)) {
+      return [file];
+    }
+    if (isZipFile(file.name)) {
+      const entries = unzipSync(file.data, {
+        filter: entry => {
+          if (!isTextFile(entry.name) || isIgnoredArchiveEntry(entry.name)) {
+            return false;
+          }
+          // The declared size bounds the output: fflate never inflates an entry past it.
+          extracted += entry.originalSize;
+          if (extracted > maxExtractedBytes) {
+            throw new Error(
+              `"${file.name}" expands to more than ${Math.round(maxExtractedBytes / 1024 / 1024)} MB of text. Upload a smaller archive.`
+            );
+          }
+          return true;
+        },
+      });
+      return Object.entries(entries).map(([name, data]) => ({name, data}));
+    }
+    throw new Error(`Unsupported file type: "${file.name}". Upload .txt files or .zip archives.`);
+  });
+}
+
+/**
+ * Tokenizes a sentence and attaches a lemma and coarse POS tag to every token. The tagger
+ * only knows English; in other languages each token is its own lemma and is tagged X.
+ */
+export function analyzeSentence(text: string, language: Language = DEFAULT_LANGUAGE): CorpusSentence {
+  const forms = tokenizeWithOffsets(text, language).map(span => span.form);
+  const tokens = forms.map(form => form.toLowerCase());
+  if (language !== 'en') {
+    return {text, tokens, lemmas: tokens, tags: tokens.map((): PosTag => 'X')};
+  }
+  return {text, tokens, ...tagTokens(forms)};
+}
+
+/**
+ * Builds a named corpus from uploaded .txt and .zip files.
+ */
+export function ingestFiles(name: string, files: UploadedFile[], language: Language = DEFAULT_LANGUAGE): Corpus {
+  const texts: CorpusText[] = expandUploads(files)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(file => ({
+      name: file.name,
+      sentences: splitSentences(normalizeText(decodeText(file.data)))
+        .map(sentence => analyzeSentence(sentence, language))
+        .filter(sentence => sentence.tokens.length > 0),
+    }))
+    .filter(text => text.sentences.length > 0);
+
+  if (texts.length === 0) {
+    throw new Error('No text could be read from the uploaded files.');
+  }
+
+  const tokenCount = texts.reduce(
+    (sum, text) => sum + text.sentences.reduce((count, sentence) => count + sentence.tokens.length, 0),
+    0
+  );
+  return {name, language, texts, tokenCount};
+}
@@ -0,0 +1,48 @@
+import {describe, expect, it} from 'vitest';
+import {ingestFiles} from '@/lib/corpus/ingest';
+import {computeKeyness, findKeywords} from '@/lib/corpus/keywords';
+
+const corpusOf = (name: string, text: string) => ingestFiles(name, [{name: 'a.txt', data: new TextEncoder().encode(text)}]);
+
+describe('computeKeyness', () => {
+  it('computes log-likelihood, %DIFF and Log Ratio', () => {
+    // 50 in 10,000 study tokens against 10 in 20,000 reference tokens: E = 20 and 40
+    const keyness = computeKeyness(50, 10, 10_000, 20_000);
+
+    // 2 * (50 * ln(50 / 20) + 10 * ln(10 / 40))
+    expect(keyness.logLikelihood).toBeCloseTo(63.903186, 5);
+    // (0.005 - 0.0005) / 0.0005 * 100
+    expect(keyness.percentDiff).toBeCloseTo(900, 8);
+    // log2(0.005 / 0.0005)
+    expect(keyness.logRatio).toBeCloseTo(3.321928, 5);
+  });
+
+  it('treats a zero frequency as 0.5 for %DIFF and Log Ratio only', () => {
+    const keyness = computeKeyness(5, 0, 10_000, 20_000);
+
+    // 2 * 5 * ln(5 / (5 / 3)); the empty reference cell adds nothing
+    expect(keyness.logLikelihood).toBeCloseTo(10.986123, 5);
+    // Relative frequencies 0.0005 against 0.5 / 20,000
+    expect(keyness.percentDiff).toBeCloseTo(1900, 8);
+    expect(keyness.logRatio).toBeCloseTo(4.321928, 5);
+  });
+
+  it('is not key when the relative frequencies are equal', () => {
+    expect(computeKeyness(10, 20, 1000, 2000)).toMatchObject({logLikelihood: 0, percentDiff: 0, logRatio: 0});
+  });
+});
+
+describe('findKeywords', () => {
+  it('splits significant words into positive and negative keywords', () => {
+    const study = corpusOf('study', 'The wind blows. The wind howls. The wind rises. The wind falls. The sun sets.');
+    const reference = corpusOf(
+      'reference',
+      'The sun shines. The sun rises. The sun sets. The sun burns. The sun glows. The sun fades. Sun, sun, sun.'
+    );
+
+    const keywords = findKeywords(study, reference, {minFrequency: 3, minLogLikelihood: 3.84});
+
+    expect(keywords.positive.map(keyword => keyword.word)).toEqual(['wind']);
+    expect(keywords.negative.map(keyword => keyword.word)).toEqual(['sun']);
+  });
+});
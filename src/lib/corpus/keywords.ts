@@ -0,0 +1,136 @@
+/**
+ * @fileOverview Keyness: words unusually frequent (positive) or infrequent (negative) in a
+ * study corpus compared with a reference corpus, as in WordSmith's KeyWords tool.
+ */
+
+import type {Corpus} from '@/lib/corpus/types';
+
+export interface KeywordOptions {
+  /** Words occurring fewer times than this in the study corpus are ignored (positive keywords). */
+  minFrequency?: number;
+  /** Minimum log-likelihood; 3.84 corresponds to p < 0.05, 6.63 to p < 0.01. */
+  minLogLikelihood?: number;
+  /** Maximum number of keywords returned per direction. */
+  limit?: number;
+}
+
+export interface Keyword {
+  word: string;
+  studyFrequency: number;
+  referenceFrequency: number;
+  logLikelihood: number;
+  /** Percentage difference of normalized frequencies (Gabrielatos & Marchi). */
+  percentDiff: number;
+  /** Binary log of the ratio of relative frequencies (Hardie). */
+  logRatio: number;
+}
+
+export interface KeywordAnalysis {
+  studyTokens: number;
+  referenceTokens: number;
+  positive: Keyword[];
+  negative: Keyword[];
+}
+
+const DEFAULT_OPTIONS: Required<KeywordOptions> = {
+  minFrequency: 3,
+  minLogLikelihood: 3.84,
+  limit: 500,
+};
+
+// Stand-in for a zero frequency so %DIFF and Log Ratio stay finite.
+const ZERO_FREQUENCY = 0.5;
+
+/**
+ * Builds a word-form frequency list for a corpus.
+ */
+export function wordFrequencies(corpus: Corpus): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const text of corpus.texts) {
+    for (const sentence of text.sentences) {
+      for (const token of sentence.tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      }
+    }
+  }
+  return frequencies;
+}
+
+/**
+ * Computes log-likelihood, %DIFF and Log Ratio for one word.
+ */
+export function computeKeyness(
+  studyFrequency: number,
+  referenceFrequency: number,
+  studyTokens: number,
+  referenceTokens: number
+): Omit<Keyword, 'word'> {
+  const total = studyFrequency + referenceFrequency;
+  const expectedStudy = (studyTokens * total) / (studyTokens + referenceTokens);
+  const expectedReference = (referenceTokens * total) / (studyTokens + referenceTokens);
+  const logLikelihood =
+    2 *
+    ((studyFrequency > 0 ? studyFrequency * Math.log(studyFrequency / expectedStudy) : 0) +
+      (referenceFrequency > 0 ? referenceFrequency * Math.log(referenceFrequency / expectedReference) : 0));
+
+  const studyRelative = (studyFrequency || ZERO_FREQUENCY) / studyTokens;
+  const referenceRelative = (referenceFrequency || ZERO_FREQUENCY) / referenceTokens;
+
+  return {
+    studyFrequency,
+    referenceFrequency,
+    logLikelihood,
+    percentDiff: ((studyRelative - referenceRelative) / referenceRelative) * 100,
+    logRatio: Math.log2(studyRelative / referenceRelative),
+  };
+}
+
+/**
+ * Compares the word frequencies of two corpora and ranks positive and negative keywords by
+ * log-likelihood.
+ */
+export function findKeywords(
+  study: Corpus,
+  reference: Corpus,
+  options: KeywordOptions = {}
+): KeywordAnalysis {
+  const minFrequency = options.minFrequency ?? DEFAULT_OPTIONS.minFrequency;
+  const minLogLikelihood = options.minLogLikelihood ?? DEFAULT_OPTIONS.minLogLikelihood;
+  const limit = options.limit ?? DEFAULT_OPTIONS.limit;
+
+  const studyFrequencies = wordFrequencies(study);
+  const referenceFrequencies = wordFrequencies(reference);
+  const words = new Set([...studyFrequencies.keys(), ...referenceFrequencies.keys()]);
+
+  const positive: Keyword[] = [];
+  const negative: Keyword[] = [];
+  words.forEach(word => {
+    const keyword = {
+      word,
+      ...computeKeyness(
+        studyFrequencies.get(word) ?? 0,
+        referenceFrequencies.get(word) ?? 0,
+        study.tokenCount,
+        reference.tokenCount
+      ),
+    };
+    if (keyword.logLikelihood < minLogLikelihood) {
+      return;
+    }
+    if (keyword.logRatio > 0) {
+      if (keyword.studyFrequency >= minFrequency) {
+        positive.push(keyword);
+      }
+    } else if (keyword.referenceFrequency >= minFrequency) {
+      negative.push(keyword);
+    }
+  });
+
+  const byLogLikelihood = (a: Keyword, b: Keyword) => b.logLikelihood - a.logLikelihood;
+  return {
+    studyTokens: study.tokenCount,
+    referenceTokens: reference.tokenCount,
+    positive: positive.sort(byLogLikelihood).slice(0, limit),
+    negative: negative.sort(byLogLikelihood).slice(0, limit),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * @fileOverview Coarse part-of-speech tags and the `lemma_POS` query syntax.
+ *
+ * Kept free of the tagger itself so the client can import it.
+ */
+
+import type {CorpusSentence} from '@/lib/corpus/types';
+
+export const POS_TAGS = ['N', 'V', 'ADJ', 'ADV', 'PREP', 'DET', 'PRON', 'CONJ', 'NUM', 'X'] as const;
+export type PosTag = (typeof POS_TAGS)[number];
+
+export const POS_LABELS: Record<PosTag, string> = {
+  N: 'noun',
+  V: 'verb',
+  ADJ: 'adj',
+  ADV: 'adv',
+  PREP: 'prep',
+  DET: 'det',
+  PRON: 'pron',
+  CONJ: 'conj',
+  NUM: 'num',
+  X: 'other',
+};
+
+export function isPosTag(value: string): value is PosTag {
+  return (POS_TAGS as readonly string[]).includes(value);
+}
+
+export interface NodeQuery {
+  /** Lowercased word form or lemma. */
+  word: string;
+  /** Present when the query carried a `_POS` suffix, e.g. `make_V`. */
+  pos?: PosTag;
+  /** Whether `word` is matched against lemmas rather than word forms. */
+  byLemma: boolean;
+}
+
+/**
+ * Parses a search such as `strong`, `make_V` or `light_ADJ`. A POS suffix implies lemma
+ * matching ("make_V" finds make/makes/made/making used as verbs).
+ */
+export function parseNodeQuery(query: string, matchLemma = false): NodeQuery {
+  const trimmed = query.trim();
+  const match = /^(.+)_([A-Za-z]+)$/.exec(trimmed);
+  const suffix = match?.[2].toUpperCase();
+  if (match && suffix && isPosTag(suffix)) {
+    return {word: match[1].toLowerCase(), pos: suffix, byLemma: true};
+  }
+  return {word: trimmed.toLowerCase(), byLemma: matchLemma};
+}
+
+/**
+ * Whether the token at `index` of a sentence is an occurrence of the queried node.
+ */
+export function matchesNode(sentence: CorpusSentence, index: number, query: NodeQuery): boolean {
+  const word = query.byLemma ? sentence.lemmas[index] : sentence.tokens[index];
+  return word === query.word && (!query.pos || sentence.tags[index] === query.pos);
+}
+
+/**
+ * Formats a lemma and tag the way queries are written, e.g. `make_V`.
+ */
+export function formatLemmaPos(lemma: string, pos: PosTag): string {
+  return `${lemma}_${pos}`;
+}
@@ -0,0 +1,83 @@
+import {describe, expect, it} from 'vitest';
+import {analyzeSentence} from '@/lib/corpus/ingest';
+import type {PosTag} from '@/lib/corpus/pos';
+import {classifyRelation, dominantRelation, type Relation} from '@/lib/corpus/relations';
+import type {CorpusSentence} from '@/lib/corpus/types';
+
+const counts = (entries: [Relation, number][]) => new Map(entries);
+
+// A sentence from word/TAG pairs, e.g. "make/V a/DET case/N"
+function tagged(text: string): CorpusSentence {
+  const pairs = text.split(' ').map(pair => pair.split('/'));
+  const tokens = pairs.map(([token]) => token);
+  return {text, tokens, lemmas: tokens, tags: pairs.map(([, tag]) => tag as PosTag)};
+}
+
+// The relation of `collocate` to `node`, both given as words of the sentence
+function relationIn(text: string, node: string, collocate: string): Relation {
+  const sentence = tagged(text);
+  return classifyRelation(sentence, sentence.tokens.indexOf(node), sentence.tokens.indexOf(collocate));
+}
+
+describe('classifyRelation', () => {
+  it('finds adjectives before a noun node, with adverbs and adjectives between', () => {
+    expect(relationIn('a/DET strong/ADJ argument/N', 'argument', 'strong')).toBe('modifier');
+    expect(relationIn('a/DET very/ADV strong/ADJ new/ADJ argument/N', 'argument', 'strong')).toBe('modifier');
+    // After the noun, the adjective is not attributive
+    expect(relationIn('the/DET argument/N seems/V strong/ADJ', 'argument', 'strong')).toBe('other');
+  });
+
+  it('finds nouns after an adjective node', () => {
+    expect(relationIn('strong/ADJ black/ADJ coffee/N', 'strong', 'coffee')).toBe('modifies');
+    expect(relationIn('coffee/N is/V strong/ADJ', 'strong', 'coffee')).toBe('other');
+  });
+
+  it('finds the verb a noun node is the object or subject of', () => {
+    expect(relationIn('make/V a/DET very/ADV strong/ADJ case/N', 'case', 'make')).toBe('object_of');
+    expect(relationIn('prices/N have/V risen/V', 'prices', 'risen')).toBe('subject_of');
+    // A noun between them breaks the pattern
+    expect(relationIn('make/V the/DET court/N case/N', 'case', 'make')).toBe('other');
+  });
+
+  it('finds the object and subject nouns of a verb node', () => {
+    expect(relationIn('make/V a/DET strong/ADJ case/N', 'make', 'case')).toBe('object');
+    expect(relationIn('prices/N always/ADV rise/V', 'rise', 'prices')).toBe('subject');
+  });
+
+  it('finds prepositions right before or after the node', () => {
+    expect(relationIn('depend/V on/PREP luck/N', 'depend', 'on')).toBe('pp_after');
+    expect(relationIn('in/PREP time/N', 'time', 'in')).toBe('pp_before');
+    expect(relationIn('depend/V largely/ADV on/PREP luck/N', 'depend', 'on')).toBe('other');
+  });
+
+  it('finds words of the same part of speech joined by and or or', () => {
+    expect(relationIn('salt/N and/CONJ pepper/N', 'salt', 'pepper')).toBe('coordination');
+    expect(relationIn('tea/N or/CONJ coffee/N', 'coffee', 'tea')).toBe('coordination');
+    expect(relationIn('poor/ADJ but/CONJ happy/ADJ', 'poor', 'happy')).toBe('other');
+    expect(relationIn('salt/N and/CONJ pour/V', 'salt', 'pour')).toBe('other');
+  });
+
+  it('falls back to other in languages the tagger does not know', () => {
+    // Every token is tagged X, so no pattern applies
+    const sentence = analyzeSentence('Un café muy fuerte y caliente.', 'es');
+    const node = sentence.tokens.indexOf('fuerte');
+
+    expect(classifyRelation(sentence, node, sentence.tokens.indexOf('café'))).toBe('other');
+    expect(classifyRelation(sentence, node, sentence.tokens.indexOf('caliente'))).toBe('other');
+  });
+});
+
+describe('dominantRelation', () => {
+  it('picks the most frequent relation', () => {
+    expect(dominantRelation(counts([['modifier', 3], ['object_of', 5], ['other', 1]]))).toBe('object_of');
+  });
+
+  it('counts occurrences in no relation like any other relation', () => {
+    expect(dominantRelation(counts([['modifier', 1], ['other', 200]]))).toBe('other');
+    expect(dominantRelation(counts([['other', 2], ['modifier', 3]]))).toBe('modifier');
+  });
+
+  it('is other when nothing was counted', () => {
+    expect(dominantRelation(new Map())).toBe('other');
+  });
+});
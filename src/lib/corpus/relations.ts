@@ -0,0 +1,119 @@
+/**
+ * @fileOverview Grammatical relations between a node and its collocates ("word sketch").
+ *
+ * Relations are recognised from shallow POS patterns between the two tokens, which is
+ * enough to group "strong argument" (modifier) apart from "make an argument" (object_of).
+ */
+
+import type {PosTag} from '@/lib/corpus/pos';
+import type {CorpusSentence} from '@/lib/corpus/types';
+
+export const RELATIONS = [
+  'modifier',
+  'modifies',
+  'object_of',
+  'subject_of',
+  'object',
+  'subject',
+  'pp_after',
+  'pp_before',
+  'coordination',
+  'other',
+] as const;
+export type Relation = (typeof RELATIONS)[number];
+
+/** Column headings, with X standing for the node. */
+export const RELATION_LABELS: Record<Relation, string> = {
+  modifier: 'Adjectives modifying X',
+  modifies: 'Nouns modified by X',
+  object_of: 'Verbs with X as object',
+  subject_of: 'Verbs with X as subject',
+  object: 'Objects of X',
+  subject: 'Subjects of X',
+  pp_after: 'X + preposition',
+  pp_before: 'Preposition + X',
+  coordination: 'X and/or ...',
+  other: 'Other collocates',
+};
+
+// Tokens that may sit between a verb and its object noun ("make a very strong case").
+const NOUN_PHRASE_FILLERS: PosTag[] = ['DET', 'ADJ', 'ADV', 'NUM', 'PRON'];
+
+function onlyTagsBetween(tags: PosTag[], from: number, to: number, allowed: PosTag[]): boolean {
+  for (let i = from + 1; i < to; i++) {
+    if (!allowed.includes(tags[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Classifies the relation between the node at `nodeIndex` and the collocate at
+ * `collocateIndex` of the same sentence.
+ */
+export function classifyRelation(
+  sentence: CorpusSentence,
+  nodeIndex: number,
+  collocateIndex: number
+): Relation {
+  const {tags, tokens} = sentence;
+  const nodeTag = tags[nodeIndex];
+  const collocateTag = tags[collocateIndex];
+  const before = collocateIndex < nodeIndex;
+  const [from, to] = before ? [collocateIndex, nodeIndex] : [nodeIndex, collocateIndex];
+  const adjacent = to - from === 1;
+
+  if (nodeTag === 'N') {
+    if (before && collocateTag === 'ADJ' && onlyTagsBetween(tags, from, to, ['ADJ', 'ADV'])) {
+      return 'modifier';
+    }
+    if (before && collocateTag === 'V' && onlyTagsBetween(tags, from, to, NOUN_PHRASE_FILLERS)) {
+      return 'object_of';
+    }
+    if (!before && collocateTag === 'V' && onlyTagsBetween(tags, from, to, ['ADV', 'V'])) {
+      return 'subject_of';
+    }
+  }
+  if (nodeTag === 'ADJ' && !before && collocateTag === 'N' && onlyTagsBetween(tags, from, to, ['ADJ'])) {
+    return 'modifies';
+  }
+  if (nodeTag === 'V' && collocateTag === 'N') {
+    if (!before && onlyTagsBetween(tags, from, to, NOUN_PHRASE_FILLERS)) {
+      return 'object';
+    }
+    if (before && onlyTagsBetween(tags, from, to, ['ADV', 'V'])) {
+      return 'subject';
+    }
+  }
+  if (collocateTag === 'PREP' && adjacent) {
+    return before ? 'pp_before' : 'pp_after';
+  }
+  if (
+    collocateTag === nodeTag &&
+    to - from === 2 &&
+    tags[from + 1] === 'CONJ' &&
+    ['and', 'or'].includes(tokens[from + 1])
+  ) {
+    return 'coordination';
+  }
+  return 'other';
+}
+
+/**
+ * Picks the relation that best describes a collocate from its per-occurrence counts: the
+ * most frequent one, counting occurrences in no grammatical relation as 'other' (so a
+ * collocate seen once as a modifier and mostly unrelated is 'other'). Ties go to the
+ * relation counted first.
+ */
+export function dominantRelation(counts: Map<Relation, number>): Relation {
+  let best: Relation = 'other';
+  let bestCount = 0;
+  counts.forEach((count, relation) => {
+    if (count > bestCount) {
+      best = relation;
+      bestCount = count;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,42 @@
+import {describe, expect, it} from 'vitest';
+import {computeAssociationMeasures} from '@/lib/corpus/statistics';
+
+// A node seen 10 times with a 4-token window (40 window slots) in 1,000 tokens, and a collocate
+// seen 20 times, 8 of them in the window. Contingency table: O11 = 8, O12 = 32, O21 = 12, O22 = 948.
+const COUNTS = {nodeFrequency: 10, collocateFrequency: 20, coOccurrence: 8, corpusSize: 1000, span: 4};
+
+describe('computeAssociationMeasures', () => {
+  it('computes every measure from the contingency table', () => {
+    const measures = computeAssociationMeasures(COUNTS);
+
+    expect(measures.observed).toBe(8);
+    // E = 40 * 20 / 1000
+    expect(measures.expected).toBeCloseTo(0.8, 10);
+    // log2(8 / 0.8)
+    expect(measures.mi).toBeCloseTo(3.321928, 5);
+    // log2(8^3 / 0.8)
+    expect(measures.mi3).toBeCloseTo(9.321928, 5);
+    // (8 - 0.8) / sqrt(8)
+    expect(measures.tScore).toBeCloseTo(2.545584, 5);
+    // 2 * sum(O * ln(O / E)) with E11 = 0.8, E12 = 39.2, E21 = 19.2, E22 = 940.8
+    expect(measures.logLikelihood).toBeCloseTo(27.028022, 5);
+    // 2 * 8 / (10 + 20)
+    expect(measures.dice).toBeCloseTo(0.533333, 5);
+    // 14 + log2(Dice)
+    expect(measures.logDice).toBeCloseTo(13.093109, 5);
+  });
+
+  it('keeps every measure finite when the words never co-occur', () => {
+    const measures = computeAssociationMeasures({...COUNTS, coOccurrence: 0});
+
+    expect(measures).toMatchObject({observed: 0, mi: 0, mi3: 0, tScore: 0, dice: 0, logDice: 0});
+    // Only the cells with observations contribute: 0 * ln(0) counts as 0
+    expect(measures.logLikelihood).toBeCloseTo(1.649777, 5);
+  });
+
+  it('returns zeros for an empty corpus', () => {
+    expect(
+      computeAssociationMeasures({nodeFrequency: 0, collocateFrequency: 0, coOccurrence: 0, corpusSize: 0, span: 10})
+    ).toEqual({observed: 0, expected: 0, mi: 0, mi3: 0, tScore: 0, logLikelihood: 0, dice: 0, logDice: 0});
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @fileOverview Association measures for node/collocate co-occurrence counts.
+ *
+ * All measures are computed from a 2x2 contingency table built the usual way for
+ * window-based collocation: the node "owns" `span` token slots per occurrence, so
+ * the expected co-occurrence frequency is f(node) * f(collocate) * span / N.
+ */
+
+export interface CoOccurrenceCounts {
+  /** Frequency of the node word in the corpus. */
+  nodeFrequency: number;
+  /** Frequency of the collocate in the corpus. */
+  collocateFrequency: number;
+  /** Number of times the collocate occurs within the span around the node. */
+  coOccurrence: number;
+  /** Total number of tokens in the corpus. */
+  corpusSize: number;
+  /** Window size in tokens (left + right). */
+  span: number;
+}
+
+export interface AssociationMeasures {
+  observed: number;
+  expected: number;
+  mi: number;
+  mi3: number;
+  tScore: number;
+  logLikelihood: number;
+  dice: number;
+  logDice: number;
+}
+
+/** O * ln(O / E), with the conventional 0 * ln(0) = 0. */
+function llTerm(observed: number, expected: number): number {
+  return observed > 0 && expected > 0 ? observed * Math.log(observed / expected) : 0;
+}
+
+/**
+ * Computes MI, MI3, t-score, log-likelihood, Dice and logDice for a node/collocate pair.
+ */
+export function computeAssociationMeasures({
+  nodeFrequency,
+  collocateFrequency,
+  coOccurrence,
+  corpusSize,
+  span,
+}: CoOccurrenceCounts): AssociationMeasures {
+  const o11 = coOccurrence;
+  const windowTokens = nodeFrequency * span;
+  const expected = corpusSize > 0 ? (windowTokens * collocateFrequency) / corpusSize : 0;
+
+  // Contingency table: rows = in window / outside window, columns = collocate / other word.
+  const o12 = Math.max(windowTokens - o11, 0);
+  const o21 = Math.max(collocateFrequency - o11, 0);
+  const o22 = Math.max(corpusSize - windowTokens - collocateFrequency + o11, 0);
+  const n = o11 + o12 + o21 + o22;
+  const r1 = o11 + o12;
+  const r2 = o21 + o22;
+  const c1 = o11 + o21;
+  const c2 = o12 + o22;
+  const logLikelihood =
+    n > 0
+      ? 2 *
+        (llTerm(o11, (r1 * c1) / n) +
+          llTerm(o12, (r1 * c2) / n) +
+          llTerm(o21, (r2 * c1) / n) +
+          llTerm(o22, (r2 * c2) / n))
+      : 0;
+
+  const dice =
+    nodeFrequency + collocateFrequency > 0 ? (2 * o11) / (nodeFrequency + collocateFrequency) : 0;
+
+  return {
+    observed: o11,
+    expected,
+    mi: o11 > 0 && expected > 0 ? Math.log2(o11 / expected) : 0,
+    mi3: o11 > 0 && expected > 0 ? Math.log2(o11 ** 3 / expected) : 0,
+    tScore: o11 > 0 ? (o11 - expected) / Math.sqrt(o11) : 0,
+    logLikelihood,
+    dice,
+    logDice: dice > 0 ? 14 + Math.log2(dice) : 0,
+  };
+}
@@ -0,0 +1,17 @@
+import {describe, expect, it} from 'vitest';
+import {ingestFiles} from '@/lib/corpus/ingest';
+import {loadCorpus, saveCorpus} from '@/lib/corpus/store';
+
+const corpusOf = (text: string) => ingestFiles('store-test', [{name: 'a.txt', data: new TextEncoder().encode(text)}]);
+
+describe('saveCorpus', () => {
+  it('only replaces an existing corpus when asked to', async () => {
+    await saveCorpus(corpusOf('The first version.'));
+
+    await expect(saveCorpus(corpusOf('The second version.'))).rejects.toThrow('Corpus "store-test" already exists.');
+    expect((await loadCorpus('store-test')).texts[0].sentences[0].text).toBe('The first version.');
+
+    await saveCorpus(corpusOf('The second version.'), {replace: true});
+    expect((await loadCorpus('store-test')).texts[0].sentences[0].text).toBe('The second version.');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Loads and saves named corpora on disk (server-side only).
+ *
+ * Each corpus is a directory under CORPUS_DIR (default: ./corpora). Uploaded corpora are
+ * stored pre-tokenized as corpus.json; a directory that only holds .txt files is ingested
+ * on first load. Loaded corpora are kept in memory for subsequent searches.
+ */
+
+import {promises as fs} from 'fs';
+import path from 'path';
+import {analyzeSentence, ingestFiles} from '@/lib/corpus/ingest';
+import {DEFAULT_LANGUAGE} from '@/lib/corpus/language';
+import type {Corpus} from '@/lib/corpus/types';
+
+const CORPUS_DIR = process.env.CORPUS_DIR ?? path.join(process.cwd(), 'corpora');
+const CORPUS_FILE = 'corpus.json';
+
+const loadedCorpora = new Map<string, Corpus>();
+
+function corpusPath(name: string): string {
+  if (!isValidCorpusName(name)) {
+    throw new Error(`Invalid corpus name "${name}".`);
+  }
+  return path.join(CORPUS_DIR, name);
+}
+
+/**
+ * Corpus names double as directory names, so only a safe subset of characters is allowed.
+ */
+export function isValidCorpusName(name: string): boolean {
+  return /^[\w.-]+$/.test(name) && !name.startsWith('.');
+}
+
+/**
+ * Returns the names of all corpora available on disk.
+ */
+export async function listCorpora(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(CORPUS_DIR, {withFileTypes: true});
+    return entries
+      .filter(entry => entry.isDirectory() && isValidCorpusName(entry.name))
+      .map(entry => entry.name)
+      .sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Loads (and caches) the corpus with the given name.
+ */
+export async function loadCorpus(name: string): Promise<Corpus> {
+  const cached = loadedCorpora.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const dir = corpusPath(name);
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Corpus "${name}" does not exist.`);
+    }
+    throw error;
+  }
+
+  let corpus: Corpus;
+  if (files.includes(CORPUS_FILE)) {
+    corpus = JSON.parse(await fs.readFile(path.join(dir, CORPUS_FILE), 'utf8'));
+    // Corpora stored before languages were added are English.
+    corpus.language ??= DEFAULT_LANGUAGE;
+    // Corpora stored before tagging was added have no lemmas or tags yet.
+    for (const text of corpus.texts) {
+      text.sentences = text.sentences.map(sentence =>
+        sentence.lemmas && sentence.tags ? sentence : analyzeSentence(sentence.text, corpus.language)
+      );
+    }
+  } else {
+    const textFiles = files.filter(file => file.toLowerCase().endsWith('.txt'));
+    const uploads = await Promise.all(
+      textFiles.map(async file => ({name: file, data: await fs.readFile(path.join(dir, file))}))
+    );
+    corpus = ingestFiles(name, uploads);
+  }
+
+  loadedCorpora.set(name, corpus);
+  return corpus;
+}
+
+/**
+ * Whether a corpus with the given name exists on disk.
+ */
+export async function corpusExists(name: string): Promise<boolean> {
+  const dir = corpusPath(name);
+  try {
+    await fs.access(dir);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Persists an ingested corpus. An existing corpus with the same name is only replaced when
+ * `replace` is set; otherwise saving fails.
+ */
+export async function saveCorpus(corpus: Corpus, {replace = false}: {replace?: boolean} = {}): Promise<void> {
+  if (!replace && (await corpusExists(corpus.name))) {
+    throw new Error(`Corpus "${corpus.name}" already exists.`);
+  }
+  const dir = corpusPath(corpus.name);
+  await fs.mkdir(dir, {recursive: true});
+  await fs.writeFile(path.join(dir, CORPUS_FILE), JSON.stringify(corpus));
+  loadedCorpora.set(corpus.name, corpus);
+}
@@ -0,0 +1,44 @@
+/**
+ * @fileOverview Part-of-speech tagging and lemmatization of corpus tokens (server-side only).
+ *
+ * Uses wink-pos-tagger (Penn Treebank tags) and collapses its tags into the coarse tagset
+ * from `pos.ts`, which is what searches and results use.
+ */
+
+import posTagger from 'wink-pos-tagger';
+import type {PosTag} from '@/lib/corpus/pos';
+
+const tagger = posTagger();
+
+const PENN_TO_COARSE: [RegExp, PosTag][] = [
+  [/^NN/, 'N'],
+  [/^(VB|MD)/, 'V'],
+  [/^JJ/, 'ADJ'],
+  [/^(RB|WRB|RP)/, 'ADV'],
+  [/^(IN|TO)$/, 'PREP'],
+  [/^(DT|PDT|WDT)$/, 'DET'],
+  [/^(PRP|WP|EX)/, 'PRON'],
+  [/^CC$/, 'CONJ'],
+  [/^CD$/, 'NUM'],
+];
+
+function toCoarseTag(penn: string): PosTag {
+  return PENN_TO_COARSE.find(([pattern]) => pattern.test(penn))?.[1] ?? 'X';
+}
+
+export interface TaggedTokens {
+  lemmas: string[];
+  tags: PosTag[];
+}
+
+/**
+ * Tags one sentence's tokens. `forms` should be the case-preserved tokens (capitalization
+ * helps the tagger); lemmas are returned lowercased.
+ */
+export function tagTokens(forms: string[]): TaggedTokens {
+  const tagged = forms.length > 0 ? tagger.tagRawTokens(forms) : [];
+  return {
+    lemmas: tagged.map(token => (token.lemma ?? token.normal).toLowerCase()),
+    tags: tagged.map(token => toCoarseTag(token.pos)),
+  };
+}
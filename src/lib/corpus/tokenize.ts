@@ -0,0 +1,94 @@
+/**
+ * @fileOverview Sentence splitting and word tokenization for corpus texts.
+ *
+ * Space-delimited languages are tokenized with a word pattern; Japanese and Chinese, which
+ * do not mark word boundaries, are segmented with Intl.Segmenter.
+ */
+
+import {DEFAULT_LANGUAGE, type Language} from '@/lib/corpus/language';
+
+// A word is a run of letters/digits, optionally joined by apostrophes or hyphens ("don't", "well-known").
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+// Sentence boundary: terminal punctuation (plus closing quotes/brackets) followed by whitespace,
+// or CJK full-width terminal punctuation, which is not followed by a space.
+const SENTENCE_BOUNDARY = /(?<=[.!?…]["'”’)\]]*)\s+|(?<=[。！？][」』）]*)(?![」』）])\s*/u;
+
+// Languages without spaces between words.
+const SEGMENTED_LANGUAGES: ReadonlySet<Language> = new Set(['ja', 'zh']);
+
+// Elided articles and pronouns that are written joined to the next word ("l'homme", "dell'anno")
+// but count as words of their own.
+const ELISIONS: Partial<Record<Language, RegExp>> = {
+  fr: /^(?:c|d|j|l|m|n|s|t|qu|jusqu|lorsqu|puisqu)['’](?=\p{L})/iu,
+  it: /^(?:c|d|l|m|n|s|t|v|un|all|dall|dell|nell|sull|quell|quest|bell)['’](?=\p{L})/iu,
+};
+
+/**
+ * Splits running text into sentences. Blank lines always end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.replace(/\s+/g, ' ').trim().split(SENTENCE_BOUNDARY))
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+export interface TokenSpan {
+  /** The token as written (case preserved). */
+  form: string;
+  /** Offset of the first character in the source text. */
+  start: number;
+  /** Offset just past the last character in the source text. */
+  end: number;
+}
+
+const segmenters = new Map<Language, Intl.Segmenter>();
+
+function segmentWords(text: string, language: Language): TokenSpan[] {
+  let segmenter = segmenters.get(language);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(language, {granularity: 'word'});
+    segmenters.set(language, segmenter);
+  }
+  return Array.from(segmenter.segment(text))
+    .filter(segment => segment.isWordLike)
+    .map(segment => ({form: segment.segment, start: segment.index, end: segment.index + segment.segment.length}));
+}
+
+function splitElision(span: TokenSpan, elision: RegExp): TokenSpan[] {
+  const match = elision.exec(span.form);
+  if (!match) {
+    return [span];
+  }
+  const split = span.start + match[0].length;
+  return [
+    {form: match[0], start: span.start, end: split},
+    {form: span.form.slice(match[0].length), start: split, end: span.end},
+  ];
+}
+
+/**
+ * Tokenizes a sentence like {@link tokenize} but keeps surface forms and character offsets,
+ * for views that need to point back into the original text.
+ */
+export function tokenizeWithOffsets(text: string, language: Language = DEFAULT_LANGUAGE): TokenSpan[] {
+  if (SEGMENTED_LANGUAGES.has(language)) {
+    return segmentWords(text, language);
+  }
+  const spans = Array.from(text.matchAll(WORD_PATTERN), match => ({
+    form: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+  const elision = ELISIONS[language];
+  return elision ? spans.flatMap(span => splitElision(span, elision)) : spans;
+}
+
+/**
+ * Lowercases and tokenizes a sentence into word tokens, dropping punctuation.
+ */
+export function tokenize(text: string, language: Language = DEFAULT_LANGUAGE): string[] {
+  return tokenizeWithOffsets(text, language).map(span => span.form.toLowerCase());
+}
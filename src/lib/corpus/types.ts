@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Shared types for locally stored corpora.
+ */
+
+import type {Language} from '@/lib/corpus/language';
+import type {PosTag} from '@/lib/corpus/pos';
+
+/**
+ * A single sentence, kept both verbatim (for display) and tokenized (for counting).
+ * `lemmas` and `tags` run parallel to `tokens`.
+ */
+export interface CorpusSentence {
+  text: string;
+  tokens: string[];
+  lemmas: string[];
+  tags: PosTag[];
+}
+
+/** One text (file) of a corpus. */
+export interface CorpusText {
+  name: string;
+  sentences: CorpusSentence[];
+}
+
+/** A named collection of texts that searches can target. */
+export interface Corpus {
+  name: string;
+  /** Determines how the texts were split and tokenized. */
+  language: Language;
+  texts: CorpusText[];
+  tokenCount: number;
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Checks model-suggested collocates and example sentences against a corpus,
+ * so that invented ("hallucinated") items can be flagged.
+ */
+
+import {matchesNode, type NodeQuery} from '@/lib/corpus/pos';
+import {tokenize} from '@/lib/corpus/tokenize';
+import type {Corpus, CorpusSentence} from '@/lib/corpus/types';
+
+export interface CollocateToVerify {
+  collocate: string;
+  lemma: string;
+  exampleSentences: string[];
+}
+
+export interface Verification {
+  corpus: string;
+  /** Whether the node and collocate co-occur at least once within the span. */
+  attested: boolean;
+  /** Actual co-occurrences of node and collocate within the span. */
+  coOccurrences: number;
+  /** For each example sentence, whether it occurs verbatim (ignoring case and punctuation). */
+  sentencesAttested: boolean[];
+}
+
+// A collocate word matches a token by form or, failing that, by lemma.
+function matchesWord(sentence: CorpusSentence, index: number, form: string, lemma: string): boolean {
+  return sentence.tokens[index] === form || sentence.lemmas[index] === lemma;
+}
+
+/**
+ * Counts node occurrences that have every word of the collocate within the span.
+ */
+function countCoOccurrences(
+  corpus: Corpus,
+  query: NodeQuery,
+  collocate: CollocateToVerify,
+  span: {left: number; right: number}
+): number {
+  const forms = tokenize(collocate.collocate, corpus.language);
+  const lemmas = tokenize(collocate.lemma, corpus.language);
+  if (forms.length === 0) {
+    return 0;
+  }
+  let count = 0;
+  for (const text of corpus.texts) {
+    for (const sentence of text.sentences) {
+      sentence.tokens.forEach((_, index) => {
+        if (!matchesNode(sentence, index, query)) {
+          return;
+        }
+        const start = Math.max(0, index - span.left);
+        const end = Math.min(sentence.tokens.length - 1, index + span.right);
+        const found = forms.every((form, w) => {
+          for (let i = start; i <= end; i++) {
+            if (i !== index && matchesWord(sentence, i, form, lemmas[w] ?? form)) {
+              return true;
+            }
+          }
+          return false;
+        });
+        if (found) {
+          count++;
+        }
+      });
+    }
+  }
+  return count;
+}
+
+/**
+ * Returns a function that verifies a suggested collocate and its example sentences against
+ * the corpus. The corpus sentences are indexed once, so the verifier can be reused.
+ */
+export function createVerifier(
+  corpus: Corpus,
+  query: NodeQuery,
+  span: {left: number; right: number}
+): (collocate: CollocateToVerify) => Verification {
+  const sentences = new Set<string>();
+  for (const text of corpus.texts) {
+    for (const sentence of text.sentences) {
+      sentences.add(sentence.tokens.join(' '));
+    }
+  }
+
+  return collocate => {
+    const coOccurrences = countCoOccurrences(corpus, query, collocate, span);
+    return {
+      corpus: corpus.name,
+      attested: coOccurrences > 0,
+      coOccurrences,
+      sentencesAttested: collocate.exampleSentences.map(sentence => sentences.has(tokenize(sentence, corpus.language).join(' '))),
+    };
+  };
+}
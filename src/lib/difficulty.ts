@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Learner levels that generated example sentences can be pitched at.
+ *
+ * Kept free of server-only code so the client can import it.
+ */
+
+export const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'intermediate';
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  beginner: 'Beginner (A1-A2)',
+  intermediate: 'Intermediate (B1-B2)',
+  advanced: 'Advanced (C1-C2)',
+};
+
+/** How each level is described to the model. */
+export const DIFFICULTY_GUIDANCE: Record<Difficulty, string> = {
+  beginner: 'beginner learners (CEFR A1-A2): short, simple sentences using only very common words',
+  intermediate: 'intermediate learners (CEFR B1-B2): everyday sentences of moderate length and vocabulary',
+  advanced: 'advanced learners (CEFR C1-C2): natural, idiomatic sentences as a native speaker would write them',
+};
@@ -0,0 +1,22 @@
+import {describe, expect, it} from 'vitest';
+import {GenerateExampleSentencesInputSchema} from '@/ai/schemas/generate-example-sentences';
+import {MAX_EXCLUDED_SENTENCES, MAX_SENTENCE_LENGTH, sentencesToExclude} from '@/lib/example-sentences';
+
+describe('sentencesToExclude', () => {
+  it('keeps the most recent sentences that fit into a request', () => {
+    const shown = Array.from({length: MAX_EXCLUDED_SENTENCES + 20}, (_, i) => `Sentence ${i}.`);
+    shown.splice(50, 0, 'x'.repeat(MAX_SENTENCE_LENGTH + 1));
+
+    const exclude = sentencesToExclude(shown);
+
+    expect(exclude).toHaveLength(MAX_EXCLUDED_SENTENCES);
+    expect(exclude[0]).toBe('Sentence 20.');
+    expect(exclude[exclude.length - 1]).toBe(`Sentence ${MAX_EXCLUDED_SENTENCES + 19}.`);
+    expect(() =>
+      GenerateExampleSentencesInputSchema.parse({word: 'strong', collocations: ['coffee'], exclude})
+    ).not.toThrow();
+    expect(() =>
+      GenerateExampleSentencesInputSchema.parse({word: 'strong', collocations: ['coffee'], exclude: shown})
+    ).toThrow();
+  });
+});
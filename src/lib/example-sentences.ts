@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Limits on the sentences an example sentence request may list as already
+ * shown, and how the client trims what is on screen to fit them.
+ *
+ * Kept free of server-only code so the client can import it.
+ */
+
+// Sentences already shown that one request can ask the model not to repeat.
+export const MAX_EXCLUDED_SENTENCES = 100;
+// Longer sentences are not worth their share of the prompt.
+export const MAX_SENTENCE_LENGTH = 1000;
+
+/**
+ * The shown sentences to send as `exclude`: over-long ones are dropped and, of the rest,
+ * only the most recent (last) MAX_EXCLUDED_SENTENCES are kept.
+ */
+export function sentencesToExclude(shown: string[]): string[] {
+  return shown.filter(sentence => sentence.length <= MAX_SENTENCE_LENGTH).slice(-MAX_EXCLUDED_SENTENCES);
+}
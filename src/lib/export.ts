@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Helpers for exporting tables and charts from the browser.
+ */
+
+export type Cell = string | number | boolean | null | undefined;
+
+function escapeDelimited(value: Cell, delimiter: string): string {
+  const text = value == null ? '' : String(value);
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Serializes a header row and data rows as CSV (or TSV with delimiter '\t'), quoting
+ * fields per RFC 4180.
+ */
+export function toDelimited(header: string[], rows: Cell[][], delimiter = ','): string {
+  return [header, ...rows]
+    .map(row => row.map(value => escapeDelimited(value, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+// How long a download's object URL is kept after the download starts.
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Offers content to the user as a file download.
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], {type: mimeType}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download only after click() returns; revoking sooner can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// Presentation properties copied onto exported SVG elements, since the page's stylesheets
+// and CSS variables do not travel with the file.
+const INLINED_SVG_STYLES = ['fill', 'stroke', 'stroke-width', 'opacity', 'font-family', 'font-size', 'font-weight'];
+
+/**
+ * Serializes an on-screen SVG element as a standalone .svg file, with its computed colours
+ * and fonts inlined so that it looks the same outside the page.
+ */
+export function serializeSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...Array.from(svg.querySelectorAll<SVGElement>('*'))];
+  const targets = [clone, ...Array.from(clone.querySelectorAll<SVGElement>('*'))];
+  sources.forEach((source, index) => {
+    const computed = getComputedStyle(source);
+    for (const property of INLINED_SVG_STYLES) {
+      targets[index].style.setProperty(property, computed.getPropertyValue(property));
+    }
+  });
+  const {width, height} = svg.getBoundingClientRect();
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/**
+ * Renders serialized SVG to a PNG image on the given background, at `scale` times the
+ * SVG's size for sharper text.
+ */
+export function svgToPng(svg: string, background: string, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], {type: 'image/svg+xml'}));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const context = canvas.getContext('2d')!;
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render the image.'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render the image.'));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * @fileOverview IndexedDB store for past searches and their full results (browser only).
+ *
+ * - addHistoryEntry - Saves a completed search.
+ * - listHistoryEntries - Returns all saved searches, newest first.
+ * - deleteHistoryEntry / clearHistory - Remove one or all saved searches.
+ * - importLegacyHistory - Moves the word-only history of earlier versions out of localStorage.
+ */
+
+import type {AnalyzeCollocationsOutput} from '@/ai/flows/analyze-collocations';
+import type {Language} from '@/lib/corpus/language';
+
+const DB_NAME = 'wordsmith-collocates';
+const DB_VERSION = 1;
+const STORE = 'searches';
+// Where earlier versions kept the last few searched words, newest first
+const LEGACY_HISTORY_KEY = 'searchHistory';
+// The settings those searches ran with were not kept; imported words get the defaults
+const LEGACY_SETTINGS: SearchSettings = {span: {left: 4, right: 4}, matchLemma: false};
+
+/** The options a search was run with, so restoring it also restores the controls. */
+export interface SearchSettings {
+  corpus?: string;
+  span: {left: number; right: number};
+  matchLemma: boolean;
+  /** Absent for searches saved before languages were added (English). */
+  language?: Language;
+  /** Corpus the model's suggestions were verified against, if any. */
+  verifyAgainst?: string;
+}
+
+export interface HistoryEntry {
+  id: number;
+  word: string;
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+  /** The model name, or "corpus" for corpus-based results. */
+  model: string;
+  settings: SearchSettings;
+  /** Absent for words imported from the localStorage history, which kept no results. */
+  result?: AnalyzeCollocationsOutput;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let legacyImport: Promise<void> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, {keyPath: 'id', autoIncrement: true});
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('word', 'word');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function addHistoryEntry(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+  const id = await run('readwrite', store => store.add(entry));
+  return {...entry, id: id as number};
+}
+
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await run<HistoryEntry[]>('readonly', store => store.index('timestamp').getAll());
+  return entries.reverse();
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  await run('readwrite', store => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await run('readwrite', store => store.clear());
+}
+
+/**
+ * Imports the words of the old localStorage history as entries without results, older than
+ * any saved search and in their old order, then removes the key. Runs once per page load;
+ * after a failure the key is kept, so the next load tries again.
+ */
+export function importLegacyHistory(): Promise<void> {
+  legacyImport ??= importLegacyWords().catch(error => {
+    legacyImport = null;
+    throw error;
+  });
+  return legacyImport;
+}
+
+async function importLegacyWords(): Promise<void> {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (saved === null) {
+    return;
+  }
+  let words: unknown;
+  try {
+    words = JSON.parse(saved);
+  } catch {
+    words = [];
+  }
+  const valid = Array.isArray(words)
+    ? words.filter((word): word is string => typeof word === 'string' && word.trim() !== '')
+    : [];
+
+  if (valid.length > 0) {
+    const oldest = (await listHistoryEntries()).at(-1)?.timestamp ?? Date.now();
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      valid.forEach((word, index) => {
+        const entry: Omit<HistoryEntry, 'id'> = {
+          word: word.trim(),
+          timestamp: oldest - index - 1,
+          model: 'unknown',
+          settings: LEGACY_SETTINGS,
+        };
+        store.add(entry);
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileOverview Two-level result cache (server-side only): an in-memory LRU in front of
+ * JSON files on disk, with a time-to-live per entry.
+ */
+
+import {createHash} from 'crypto';
+import {promises as fs} from 'fs';
+import path from 'path';
+
+export interface ResultCacheOptions {
+  /** Directory for the on-disk copies. */
+  dir: string;
+  /** Maximum number of entries kept in memory. */
+  maxEntries: number;
+  /** How long an entry stays valid, in milliseconds. */
+  ttlMs: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  /** Milliseconds since the epoch at which the value was stored. */
+  storedAt: number;
+}
+
+interface CacheRecord<T> extends CachedValue<T> {
+  /** The unhashed key parts, kept so entries can be invalidated by content. */
+  parts: Record<string, unknown>;
+}
+
+// JSON with sorted object keys, so equal key parts always hash the same.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class ResultCache<T> {
+  private readonly memory = new Map<string, CacheRecord<T>>();
+
+  constructor(private readonly options: ResultCacheOptions) {}
+
+  private hash(parts: Record<string, unknown>): string {
+    return createHash('sha256').update(stableStringify(parts)).digest('hex');
+  }
+
+  private file(hash: string): string {
+    return path.join(this.options.dir, `${hash}.json`);
+  }
+
+  private isFresh(record: CacheRecord<T>): boolean {
+    return Date.now() - record.storedAt < this.options.ttlMs;
+  }
+
+  private remember(hash: string, record: CacheRecord<T>): void {
+    // Re-inserting moves the entry to the most recently used end of the Map.
+    this.memory.delete(hash);
+    this.memory.set(hash, record);
+    while (this.memory.size > this.options.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  async get(parts: Record<string, unknown>): Promise<CachedValue<T> | undefined> {
+    const hash = this.hash(parts);
+    let record = this.memory.get(hash);
+    if (!record) {
+      try {
+        record = JSON.parse(await fs.readFile(this.file(hash), 'utf8')) as CacheRecord<T>;
+      } catch {
+        return undefined;
+      }
+    }
+    if (!this.isFresh(record)) {
+      await this.delete(hash);
+      return undefined;
+    }
+    this.remember(hash, record);
+    return {value: record.value, storedAt: record.storedAt};
+  }
+
+  async set(parts: Record<string, unknown>, value: T): Promise<void> {
+    const hash = this.hash(parts);
+    const record: CacheRecord<T> = {parts, value, storedAt: Date.now()};
+    this.remember(hash, record);
+    try {
+      await fs.mkdir(this.options.dir, {recursive: true});
+      await fs.writeFile(this.file(hash), JSON.stringify(record));
+    } catch (error) {
+      // The in-memory copy still serves; a read-only disk only costs persistence.
+      console.error('Failed to persist cache entry:', error);
+    }
+  }
+
+  private async delete(hash: string): Promise<void> {
+    this.memory.delete(hash);
+    await fs.rm(this.file(hash), {force: true});
+  }
+
+  /**
+   * Removes every entry whose key parts match the predicate (all entries if omitted).
+   * Returns the number of entries removed.
+   */
+  async invalidate(predicate: (parts: Record<string, unknown>) => boolean = () => true): Promise<number> {
+    const hashes = new Set<string>();
+    this.memory.forEach((record, hash) => {
+      if (predicate(record.parts)) hashes.add(hash);
+    });
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(this.options.dir)).filter(file => file.endsWith('.json'));
+    } catch {
+      // Nothing persisted yet.
+    }
+    for (const file of files) {
+      const hash = file.slice(0, -'.json'.length);
+      if (hashes.has(hash)) continue;
+      try {
+        const record = JSON.parse(await fs.readFile(path.join(this.options.dir, file), 'utf8')) as CacheRecord<T>;
+        if (predicate(record.parts)) hashes.add(hash);
+      } catch {
+        hashes.add(hash); // Unreadable entries are dropped too.
+      }
+    }
+    await Promise.all(Array.from(hashes, hash => this.delete(hash)));
+    return hashes.size;
+  }
+}
@@ -0,0 +1,25 @@
+import {strFromU8, unzipSync} from 'fflate';
+import {describe, expect, it} from 'vitest';
+import {toXlsx} from '@/lib/xlsx';
+
+const sheetNamesOf = (workbook: Uint8Array) =>
+  Array.from(strFromU8(unzipSync(workbook)['xl/workbook.xml']).matchAll(/<sheet name="([^"]*)"/g), match => match[1]);
+
+describe('toXlsx', () => {
+  it('writes one worksheet per entry', () => {
+    const workbook = toXlsx([
+      {name: 'strong', header: ['Collocate', 'Frequency'], rows: [['coffee', 3]]},
+      {name: 'make_V', header: ['Collocate', 'Frequency'], rows: []},
+    ]);
+
+    expect(sheetNamesOf(workbook)).toEqual(['strong', 'make_V']);
+    expect(strFromU8(unzipSync(workbook)['xl/worksheets/sheet1.xml'])).toContain('<v>3</v>');
+  });
+
+  it('writes an empty sheet rather than a workbook without sheets', () => {
+    const files = unzipSync(toXlsx([]));
+
+    expect(sheetNamesOf(toXlsx([]))).toEqual(['Sheet1']);
+    expect(files['xl/worksheets/sheet1.xml']).toBeDefined();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @fileOverview Minimal .xlsx (Office Open XML) workbook writer.
+ *
+ * Writes unstyled worksheets (a header row plus data rows of inline strings and numbers),
+ * which is all the exports need; the package is zipped with fflate.
+ */
+
+import {strToU8, zipSync} from 'fflate';
+import type {Cell} from '@/lib/export';
+
+export interface Worksheet {
+  name: string;
+  header: string[];
+  rows: Cell[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+// Column letters: 0 -> A, 25 -> Z, 26 -> AA, ...
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: Cell, ref: string): string {
+  if (value == null || value === '') {
+    return '';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function sheetXml({header, rows}: Worksheet): string {
+  const rowsXml = [header, ...rows]
+    .map((row, r) => {
+      const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`)).join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+  return (
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rowsXml}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Excel sheet names are at most 31 characters, may not contain []:*?/\ and must be unique.
+ */
+function sheetNames(sheets: Worksheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[\[\]:*?/\\]/g, '_').slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)}~${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Excel refuses to open a workbook without sheets, so an empty export gets this one.
+const EMPTY_SHEET: Worksheet = {name: 'Sheet1', header: [], rows: []};
+
+/**
+ * Builds an .xlsx workbook with one worksheet per entry (or one empty sheet if there are none).
+ */
+export function toXlsx(worksheets: Worksheet[]): Uint8Array {
+  const sheets = worksheets.length > 0 ? worksheets : [EMPTY_SHEET];
+  const names = sheetNames(sheets);
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join('') +
+        '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      XML_HEADER +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets>' +
+        names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join('') +
+        '</Relationships>'
+    ),
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet));
+  });
+  return zipSync(files);
+}
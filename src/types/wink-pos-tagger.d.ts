@@ -0,0 +1,17 @@
+declare module 'wink-pos-tagger' {
+  interface TaggedToken {
+    value: string;
+    tag: string;
+    normal: string;
+    pos: string;
+    lemma?: string;
+  }
+
+  interface PosTagger {
+    tagSentence(sentence: string): TaggedToken[];
+    tagRawTokens(tokens: string[]): TaggedToken[];
+  }
+
+  function posTagger(): PosTagger;
+  export = posTagger;
+}
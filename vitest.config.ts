@@ -0,0 +1,27 @@
+import {mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import path from 'path';
+import {fileURLToPath} from 'url';
+import {defineConfig} from 'vitest/config';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+// Each run gets an empty cache and corpus directory.
+const scratch = mkdtempSync(path.join(tmpdir(), 'wordsmith-test-'));
+process.on('exit', () => rmSync(scratch, {recursive: true, force: true}));
+
+export default defineConfig({
+  resolve: {
+    alias: {'@': path.join(root, 'src')},
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Flows answer from recorded responses instead of calling a model.
+    env: {
+      MODEL_PROVIDER: 'mock',
+      MOCK_MODEL_FIXTURES: path.join(root, 'src', 'ai', 'fixtures'),
+      COLLOCATION_CACHE_DIR: path.join(scratch, 'cache'),
+      CORPUS_DIR: path.join(scratch, 'corpora'),
+    },
+  },
+});